@@ -0,0 +1,424 @@
+// ============================================================================
+// REST API SERVER (src/api/ApiServer.ts)
+// ============================================================================
+
+import express, { Express, NextFunction, Request, Response } from 'express';
+import cors from 'cors';
+import { timingSafeEqual } from 'crypto';
+import { Server } from 'http';
+import { BotConfig } from "../config";
+import { TradingBot } from "../core/TradingBot";
+import { DatabaseClient } from "../database/client";
+import { ListFilter, MarketSession, OperatorAction, OperatorActionType, Position } from "../types";
+
+/**
+ * Rejected query parameters, answered with a 400
+ */
+class BadRequestError extends Error {}
+
+/**
+ * Missing or unknown operator token on a control endpoint, answered with a 401
+ */
+class UnauthorizedError extends Error {}
+
+// Refused control calls written to the audit table per client per minute; the rest are only logged
+const REFUSALS_AUDITED_PER_MINUTE = 20;
+
+interface ControlTarget {
+  coin?: string;
+  positionId?: string;
+  body: any;
+}
+
+/**
+ * HTTP API over a running TradingBot for the dashboard and operators.
+ *
+ * List endpoints take `coin`, `from`/`to` (epoch ms or ISO dates, `to`
+ * exclusive) and `limit`/`offset`, and answer `{ items, total, limit, offset }`.
+ *
+ *   GET /api/status
+ *   GET /api/sessions[?coin=]
+ *   GET /api/positions[?status=open|closed|hedged]
+ *   GET /api/positions/:id
+ *   GET /api/positions/:id/trades
+ *   GET /api/trades[?mode=paper|live]
+ *   GET /api/snapshots
+ *   GET /api/stats
+ *
+ * Control endpoints need `Authorization: Bearer <token>` for one of the
+ * operators in API_OPERATOR_TOKENS. Every control action, successful or not,
+ * is written to `operator_actions` - including ones refused for a bad token
+ * (operator `anonymous`) or a malformed body. Refusals record only the action,
+ * route params and error, at most REFUSALS_AUDITED_PER_MINUTE per client.
+ * Failed actions answer 400 with the reason.
+ *
+ *   POST /api/control/pause               { coin? }
+ *   POST /api/control/resume              { coin? }
+ *   POST /api/control/positions/:id/flatten
+ *   POST /api/control/coins/:coin/enable
+ *   POST /api/control/coins/:coin/disable
+ *   POST /api/control/refresh             { next? }
+ *   POST /api/control/risk/resume
+ *   GET  /api/control/audit
+ */
+export class ApiServer {
+  private app: Express;
+  private server: Server | null = null;
+  private bot: TradingBot;
+  private db: DatabaseClient;
+  private config: BotConfig['api'];
+  private refusals: Map<string, { windowStart: number; count: number }> = new Map();
+
+  constructor(bot: TradingBot, config: BotConfig['api']) {
+    this.bot = bot;
+    this.db = bot.getDatabase();
+    this.config = config;
+
+    this.app = express();
+    // No cross-origin access unless the dashboard's origin is configured
+    const origins = config.corsOrigin.split(',').map(origin => origin.trim()).filter(Boolean);
+    this.app.use(cors({ origin: origins.length > 0 ? origins : false }));
+    this.app.use(express.json());
+    this.registerRoutes();
+
+    this.app.use((req: Request, res: Response) => {
+      res.status(404).json({ error: `No route for ${req.method} ${req.path}` });
+    });
+
+    // Express 5 forwards rejected async handlers here
+    this.app.use((err: any, req: Request, res: Response, _next: NextFunction) => {
+      if (err instanceof BadRequestError) {
+        res.status(400).json({ error: err.message });
+        return;
+      }
+      if (err instanceof UnauthorizedError) {
+        res.status(401).json({ error: err.message });
+        return;
+      }
+
+      console.error(`❌ API ${req.method} ${req.path} failed:`, err.message);
+      res.status(500).json({ error: 'Internal server error' });
+    });
+  }
+
+  start(): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const server = this.app.listen(this.config.port, this.config.host, () => {
+        console.log(`🌐 REST API listening on ${this.config.host}:${this.config.port}`);
+        resolve();
+      });
+      server.on('error', reject);
+      this.server = server;
+    });
+  }
+
+  stop(): Promise<void> {
+    return new Promise(resolve => {
+      if (!this.server) return resolve();
+      this.server.close(() => resolve());
+      this.server = null;
+    });
+  }
+
+  private registerRoutes(): void {
+    this.app.get('/api/status', (req: Request, res: Response) => {
+      res.json(this.bot.getStatus());
+    });
+
+    this.app.get('/api/sessions', (req: Request, res: Response) => {
+      const coin = this.stringParam(req, 'coin')?.toUpperCase();
+      const sessions = this.bot.getActiveSessions()
+        .filter(session => !coin || session.coin === coin)
+        .map(session => this.toSessionView(session));
+
+      res.json({ items: sessions, total: sessions.length });
+    });
+
+    this.app.get('/api/positions', async (req: Request, res: Response) => {
+      const status = this.stringParam(req, 'status')?.toUpperCase();
+      if (status && !['OPEN', 'HEDGED', 'CLOSED'].includes(status)) {
+        throw new BadRequestError(`Invalid status: ${status.toLowerCase()}`);
+      }
+
+      res.json(await this.db.listPositions(this.parseFilter(req), status as Position['status']));
+    });
+
+    this.app.get('/api/positions/:id', async (req: Request, res: Response) => {
+      const position = await this.db.getPosition(req.params.id as string);
+      if (!position) {
+        res.status(404).json({ error: 'Position not found' });
+        return;
+      }
+
+      res.json(position);
+    });
+
+    this.app.get('/api/positions/:id/trades', async (req: Request, res: Response) => {
+      const position = await this.db.getPosition(req.params.id as string);
+      if (!position) {
+        res.status(404).json({ error: 'Position not found' });
+        return;
+      }
+
+      const trades = await this.db.getTradesForPosition(position.id);
+      res.json({ items: trades, total: trades.length });
+    });
+
+    this.app.get('/api/trades', async (req: Request, res: Response) => {
+      const mode = this.stringParam(req, 'mode')?.toLowerCase();
+      if (mode && mode !== 'paper' && mode !== 'live') {
+        throw new BadRequestError(`Invalid mode: ${mode}`);
+      }
+
+      res.json(await this.db.listTrades(this.parseFilter(req), mode as 'paper' | 'live' | undefined));
+    });
+
+    this.app.get('/api/snapshots', async (req: Request, res: Response) => {
+      res.json(await this.db.listSnapshots(this.parseFilter(req)));
+    });
+
+    this.app.get('/api/stats', async (req: Request, res: Response) => {
+      res.json(await this.bot.getStats());
+    });
+
+    this.registerControlRoutes();
+  }
+
+  private registerControlRoutes(): void {
+    this.app.post('/api/control/pause', this.control('PAUSE', ({ coin }) => this.bot.pause(coin)));
+
+    this.app.post('/api/control/resume', this.control('RESUME', ({ coin }) => this.bot.resume(coin)));
+
+    this.app.post('/api/control/positions/:id/flatten', this.control('FLATTEN', ({ positionId }) =>
+      this.bot.flattenPosition(positionId!)
+    ));
+
+    this.app.post('/api/control/coins/:coin/enable', this.control('ENABLE_COIN', ({ coin }) =>
+      this.bot.setCoinEnabled(coin!, true)
+    ));
+
+    this.app.post('/api/control/coins/:coin/disable', this.control('DISABLE_COIN', ({ coin }) =>
+      this.bot.setCoinEnabled(coin!, false)
+    ));
+
+    this.app.post('/api/control/refresh', this.control('REFRESH_MARKETS', ({ body }) => {
+      if (body.next !== undefined && typeof body.next !== 'boolean') {
+        throw new BadRequestError('next must be a boolean');
+      }
+      return this.bot.refreshMarkets(body.next === true);
+    }));
+
+    this.app.post('/api/control/risk/resume', this.control('RESUME_RISK', () => this.bot.resumeRisk()));
+
+    this.app.get('/api/control/audit', async (req: Request, res: Response) => {
+      this.authenticate(req);
+      res.json(await this.db.listOperatorActions(this.parseFilter(req)));
+    });
+  }
+
+  /**
+   * Handler that authenticates the operator, runs `run` and audits the outcome
+   */
+  private control(action: OperatorActionType, run: (target: ControlTarget) => any) {
+    return async (req: Request, res: Response) => {
+      let operator = 'anonymous';
+      let target: ControlTarget;
+      try {
+        operator = this.authenticate(req);
+        target = this.parseControlTarget(req);
+      } catch (err: any) {
+        // Refused before it ran - on the record without the untrusted body, then answered 401/400 as usual
+        if (this.countRefusal(req.ip || 'unknown')) {
+          await this.audit({
+            operator,
+            action,
+            coin: typeof req.params.coin === 'string' ? req.params.coin.toUpperCase().slice(0, 10) : undefined,
+            positionId: typeof req.params.id === 'string' ? req.params.id.slice(0, 255) : undefined,
+            success: false,
+            error: err.message,
+            timestamp: Date.now(),
+          });
+        }
+        console.log(`👤 ${operator}: ${action} refused - ${err.message}`);
+        throw err;
+      }
+
+      let result: any;
+      let error: string | undefined;
+      try {
+        result = await run(target);
+      } catch (err: any) {
+        error = err.message;
+      }
+
+      await this.audit({
+        operator,
+        action,
+        coin: target.coin,
+        positionId: target.positionId,
+        params: Object.keys(target.body).length > 0 ? target.body : undefined,
+        success: error === undefined,
+        result,
+        error,
+        timestamp: Date.now(),
+      });
+
+      console.log(`👤 ${operator}: ${action}${target.coin ? ` ${target.coin}` : ''}${target.positionId ? ` ${target.positionId}` : ''} - ${error ?? 'ok'}`);
+
+      if (error !== undefined) {
+        res.status(400).json({ error });
+        return;
+      }
+      res.json(result);
+    };
+  }
+
+  /**
+   * Record an operator action; a failed write is logged rather than failing the request
+   */
+  private async audit(action: OperatorAction): Promise<void> {
+    await this.db.insertOperatorAction(action)
+      .catch(err => console.error(`❌ Failed to audit ${action.action} by ${action.operator}:`, err.message));
+  }
+
+  /**
+   * Count a refused control call from `client`. False once the client is past
+   * its audited refusals for the current minute.
+   */
+  private countRefusal(client: string): boolean {
+    const now = Date.now();
+
+    if (this.refusals.size > 1000) {
+      for (const [key, entry] of this.refusals.entries()) {
+        if (now - entry.windowStart >= 60000) this.refusals.delete(key);
+      }
+    }
+
+    let entry = this.refusals.get(client);
+    if (!entry || now - entry.windowStart >= 60000) {
+      entry = { windowStart: now, count: 0 };
+      this.refusals.set(client, entry);
+    }
+
+    entry.count++;
+    if (entry.count === REFUSALS_AUDITED_PER_MINUTE + 1) {
+      console.warn(`⚠️ ${client}: more than ${REFUSALS_AUDITED_PER_MINUTE} refused control calls this minute - no longer auditing them`);
+    }
+    return entry.count <= REFUSALS_AUDITED_PER_MINUTE;
+  }
+
+  /**
+   * Operator name for the request's bearer token
+   */
+  private authenticate(req: Request): string {
+    const tokens = Object.keys(this.config.operators);
+    if (tokens.length === 0) {
+      throw new UnauthorizedError('Control endpoints are disabled - set API_OPERATOR_TOKENS');
+    }
+
+    const match = /^Bearer (.+)$/.exec(req.get('authorization') || '');
+    if (!match) {
+      throw new UnauthorizedError('Missing bearer token');
+    }
+
+    const given = Buffer.from(match[1]);
+    const token = tokens.find(candidate => {
+      const expected = Buffer.from(candidate);
+      return expected.length === given.length && timingSafeEqual(expected, given);
+    });
+    if (!token) {
+      throw new UnauthorizedError('Unknown operator token');
+    }
+    return this.config.operators[token];
+  }
+
+  private parseControlTarget(req: Request): ControlTarget {
+    const body = req.body ?? {};
+    if (typeof body !== 'object' || Array.isArray(body)) {
+      throw new BadRequestError('Body must be a JSON object');
+    }
+
+    const coin = req.params.coin ?? body.coin;
+    if (coin !== undefined && typeof coin !== 'string') {
+      throw new BadRequestError('coin must be a string');
+    }
+
+    return {
+      coin: coin ? coin.toUpperCase() : undefined,
+      positionId: req.params.id as string | undefined,
+      body,
+    };
+  }
+
+  private parseFilter(req: Request): ListFilter {
+    const limit = this.intParam(req, 'limit') ?? this.config.defaultPageSize;
+    const offset = this.intParam(req, 'offset') ?? 0;
+
+    if (limit < 1 || limit > this.config.maxPageSize) {
+      throw new BadRequestError(`limit must be between 1 and ${this.config.maxPageSize}`);
+    }
+    if (offset < 0) {
+      throw new BadRequestError('offset must not be negative');
+    }
+
+    const from = this.timeParam(req, 'from');
+    const to = this.timeParam(req, 'to');
+    if (from !== undefined && to !== undefined && from >= to) {
+      throw new BadRequestError('from must be before to');
+    }
+
+    return {
+      coin: this.stringParam(req, 'coin')?.toUpperCase(),
+      from,
+      to,
+      limit,
+      offset,
+    };
+  }
+
+  private stringParam(req: Request, name: string): string | undefined {
+    const value = req.query[name];
+    if (value === undefined || value === '') return undefined;
+    if (typeof value !== 'string') {
+      throw new BadRequestError(`${name} must be given once`);
+    }
+    return value;
+  }
+
+  private intParam(req: Request, name: string): number | undefined {
+    const value = this.stringParam(req, name);
+    if (value === undefined) return undefined;
+
+    if (!/^-?\d+$/.test(value)) {
+      throw new BadRequestError(`${name} must be an integer`);
+    }
+    return parseInt(value);
+  }
+
+  /**
+   * Epoch milliseconds or anything Date.parse understands
+   */
+  private timeParam(req: Request, name: string): number | undefined {
+    const value = this.stringParam(req, name);
+    if (value === undefined) return undefined;
+
+    const time = /^\d+$/.test(value) ? parseInt(value) : Date.parse(value);
+    if (isNaN(time)) {
+      throw new BadRequestError(`${name} must be epoch milliseconds or an ISO date`);
+    }
+    return time;
+  }
+
+  private toSessionView(session: MarketSession) {
+    return {
+      coin: session.coin,
+      marketId: session.market.id,
+      marketSlug: session.market.slug,
+      question: session.market.question,
+      positionId: session.positionId || null,
+      startTime: session.startTime,
+      endTime: session.endTime,
+      active: session.active,
+    };
+  }
+}
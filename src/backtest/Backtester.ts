@@ -0,0 +1,377 @@
+// ============================================================================
+// BACKTESTER (src/backtest/Backtester.ts)
+// ============================================================================
+
+import * as ccxt from 'ccxt';
+import { BotConfig } from "../config";
+import { DatabaseClient } from "../database/client";
+import { Strategy, createStrategy } from "../strategy/Strategy";
+import { FillSimulator } from "../trading/FillSimulator";
+import { FairValueModel } from "../pricing/FairValueModel";
+import { LocalOrderBook } from "../polymarket/types";
+import {
+  BacktestMarketResult,
+  BacktestReport,
+  MarketData,
+  MarketSnapshot,
+  OHLCV,
+  OrderBookData,
+  Position,
+  StrategyContext,
+} from "../types";
+
+export interface BacktestOptions {
+  from: number;
+  to: number;
+  coin?: string;
+  bookDepthShares: number;  // Snapshots only keep the top of book - assume this much size at each best price
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+
+/**
+ * Replays recorded `market_snapshots` through each coin's configured
+ * strategy, filling orders with the paper `FillSimulator`.
+ *
+ * Each market is offered to `onMarketOpen` from its first snapshot and
+ * `onTick` runs on every later one, mirroring the bot's 10 second tick.
+ * Markets resolve like Polymarket does, on the Binance 1h candle's open and
+ * close. When the candle can't be loaded the first and last snapshot prices
+ * stand in for them, with a warning, since gaps at either end of the hour can
+ * flip the outcome.
+ */
+export class Backtester {
+  private config: BotConfig;
+  private db: DatabaseClient;
+  private fairValueModel: FairValueModel;
+  private exchange: ccxt.Exchange;
+
+  constructor(config: BotConfig, db: DatabaseClient) {
+    this.config = config;
+    this.db = db;
+    this.fairValueModel = new FairValueModel(config);
+
+    const ExchangeClass = ccxt[config.ccxt.exchange as keyof typeof ccxt] as any;
+    this.exchange = new ExchangeClass({
+      enableRateLimit: config.ccxt.enableRateLimit,
+      options: config.ccxt.options,
+    });
+  }
+
+  async run(options: BacktestOptions): Promise<BacktestReport> {
+    const snapshots = await this.db.getSnapshots(options.from, options.to, options.coin);
+
+    const markets = new Map<string, MarketSnapshot[]>();
+    for (const snapshot of snapshots) {
+      const key = `${snapshot.coin}:${snapshot.marketSlug}`;
+      if (!markets.has(key)) markets.set(key, []);
+      markets.get(key)!.push(snapshot);
+    }
+
+    console.log(`📼 Replaying ${snapshots.length} snapshots across ${markets.size} markets`);
+
+    const candles = new Map<string, Map<number, OHLCV>>();
+    for (const coin of new Set(snapshots.map(s => s.coin))) {
+      candles.set(coin, await this.fetchHourCandles(coin, options.from, options.to));
+    }
+
+    const results: BacktestMarketResult[] = [];
+    for (const marketSnapshots of markets.values()) {
+      const coinCandles = candles.get(marketSnapshots[0].coin) || new Map<number, OHLCV>();
+      const result = await this.replayMarket(marketSnapshots, options, coinCandles);
+      if (result) results.push(result);
+    }
+
+    return this.buildReport(results, options);
+  }
+
+  /**
+   * Enter on the first usable snapshot, rebalance on each later one, settle at the end
+   */
+  private async replayMarket(
+    snapshots: MarketSnapshot[],
+    options: BacktestOptions,
+    candles: Map<number, OHLCV>
+  ): Promise<BacktestMarketResult | null> {
+    const first = snapshots[0];
+    const last = snapshots[snapshots.length - 1];
+    const upAssetId = `${first.marketSlug}:UP`;
+    const downAssetId = `${first.marketSlug}:DOWN`;
+
+    // The bot keeps ticking until the hour ends, so the market closes on the next hour boundary
+    const marketEndTime = Math.ceil(last.timestamp / HOUR_MS) * HOUR_MS;
+
+    const candle = candles.get(marketEndTime - HOUR_MS);
+    if (!candle) {
+      console.warn(`⚠️ ${first.coin} ${first.marketSlug}: no Binance candle for the hour - resolving on the first and last snapshot prices`);
+    }
+    const hourOpen = candle ? candle.open : first.price;
+    const hourClose = candle ? candle.close : last.price;
+
+    const simulator = new FillSimulator({ latencyMs: 0, restingTimeoutMs: 0 });
+    const coinConfig = this.config.coins.find(c => c.symbol === first.coin);
+    const strategy: Strategy = createStrategy(coinConfig?.strategy, this.config);
+
+    let position: Position | null = null;
+    let entrySide: 'UP' | 'DOWN' = 'UP';
+    // Shares and cost bought per side, for pricing sells at average cost
+    const bought = { UP: { shares: 0, cost: 0 }, DOWN: { shares: 0, cost: 0 } };
+    let trades = 0;
+    let skippedTrades = 0;
+
+    for (const snapshot of snapshots) {
+      const marketData = this.toMarketData(snapshot, hourOpen);
+      const upBook = this.toOrderBook(upAssetId, snapshot.upBestBid, snapshot.upBestAsk, snapshot.timestamp, options.bookDepthShares);
+      const downBook = this.toOrderBook(downAssetId, snapshot.downBestBid, snapshot.downBestAsk, snapshot.timestamp, options.bookDepthShares);
+
+      simulator.onBook(this.toLocalBook(upBook, first.marketSlug));
+      simulator.onBook(this.toLocalBook(downBook, first.marketSlug));
+
+      const context: StrategyContext = {
+        coin: snapshot.coin,
+        marketSlug: first.marketSlug,
+        marketEndTime,
+        minutesRemaining: Math.floor((marketEndTime - snapshot.timestamp) / 60000),
+        position,
+        marketData,
+        upBook,
+        downBook,
+        // Repriced against the same hour open the market resolves on here
+        fairValue: snapshot.realizedVolatility !== undefined
+          ? this.fairValueModel.price(snapshot.price, hourOpen, snapshot.realizedVolatility, marketEndTime, snapshot.timestamp)
+          : null,
+      };
+
+      if (!position) {
+        // Like TradingBot, wait for usable asks on both sides before offering the market
+        if ([upBook.bestAsk, downBook.bestAsk].some(ask => ask <= 0 || ask >= 1)) continue;
+
+        const entry = strategy.onMarketOpen(context)[0];
+        if (!entry || entry.shares <= 0) break;
+
+        const side = entry.side;
+        const result = await simulator.submit({
+          tokenId: side === 'UP' ? upAssetId : downAssetId,
+          side: 'BUY',
+          shares: entry.shares,
+          price: entry.price,
+          coin: snapshot.coin,
+        });
+        if (!result.success || result.filledShares === 0) continue;
+
+        entrySide = side;
+        trades++;
+        bought[side].shares += result.filledShares;
+        bought[side].cost += result.filledShares * result.avgPrice;
+        position = {
+          id: `backtest_${first.coin}_${snapshot.timestamp}`,
+          coin: snapshot.coin,
+          marketId: first.marketSlug,
+          marketSlug: first.marketSlug,
+          side,
+          entryPrice: result.avgPrice,
+          shares: result.filledShares,
+          costBasis: result.filledShares * result.avgPrice,
+          entryTime: snapshot.timestamp,
+          hourOpenPrice: hourOpen,
+          marketEndTime,
+          status: 'OPEN',
+          assetIds: { up: upAssetId, down: downAssetId },
+          confidence: entry.confidence,
+          signalReasons: entry.reasons,
+          upBalance: side === 'UP' ? result.filledShares : 0,
+          downBalance: side === 'DOWN' ? result.filledShares : 0,
+        };
+        continue;
+      }
+
+      for (const intent of strategy.onTick(context)) {
+        const held = intent.side === 'UP' ? (position.upBalance || 0) : (position.downBalance || 0);
+        const shares = intent.action === 'SELL' ? Math.min(intent.shares, held) : intent.shares;
+        if (shares <= 0 || intent.price <= 0) continue;
+
+        const result = await simulator.submit({
+          tokenId: intent.side === 'UP' ? upAssetId : downAssetId,
+          side: intent.action,
+          shares,
+          price: intent.price,
+          coin: snapshot.coin,
+        });
+
+        if (!result.success || result.filledShares === 0) {
+          skippedTrades++;
+          continue;
+        }
+
+        trades++;
+        const value = result.filledShares * result.avgPrice;
+        const lot = bought[intent.side];
+
+        if (intent.action === 'SELL') {
+          const costSold = result.filledShares * (lot.shares > 0 ? lot.cost / lot.shares : 0);
+          position.costBasis -= costSold;
+          position.realizedPnl = (position.realizedPnl || 0) + value - costSold;
+        } else {
+          lot.shares += result.filledShares;
+          lot.cost += value;
+          position.costBasis += value;
+        }
+
+        const signed = intent.action === 'SELL' ? -result.filledShares : result.filledShares;
+        if (intent.side === 'UP') position.upBalance = (position.upBalance || 0) + signed;
+        else position.downBalance = (position.downBalance || 0) + signed;
+      }
+
+      // Sold out before expiry - nothing left to manage
+      if ((position.upBalance || 0) <= 0 && (position.downBalance || 0) <= 0) break;
+    }
+
+    if (!position) {
+      return null;
+    }
+
+    const outcome = hourClose >= hourOpen ? 'UP' : 'DOWN';
+    const upBalance = position.upBalance || 0;
+    const downBalance = position.downBalance || 0;
+    const payout = outcome === 'UP' ? upBalance : downBalance;
+
+    return {
+      coin: position.coin,
+      marketSlug: position.marketSlug,
+      entrySide,
+      entryPrice: position.entryPrice,
+      entryTime: position.entryTime,
+      marketEndTime,
+      outcome,
+      upBalance,
+      downBalance,
+      costBasis: position.costBasis,
+      payout,
+      pnl: payout - position.costBasis + (position.realizedPnl || 0),
+      trades,
+      skippedTrades,
+    };
+  }
+
+  /**
+   * Completed 1h Binance candles of a coin over the backtest range, keyed by hour start
+   */
+  private async fetchHourCandles(coin: string, from: number, to: number): Promise<Map<number, OHLCV>> {
+    const candles = new Map<number, OHLCV>();
+    const coinConfig = this.config.coins.find(c => c.symbol === coin);
+    if (!coinConfig) return candles;
+
+    const until = Math.min(to, Date.now());
+    let since = Math.floor(from / HOUR_MS) * HOUR_MS;
+
+    try {
+      while (since < until) {
+        const ohlcv = await this.exchange.fetchOHLCV(coinConfig.ccxtSymbol, '1h', since, 1000);
+        if (!ohlcv || ohlcv.length === 0) break;
+
+        for (const [timestamp, open, high, low, close, volume] of ohlcv) {
+          // The current hour's candle is still moving
+          if (timestamp + HOUR_MS > Date.now()) continue;
+          candles.set(timestamp, { timestamp, open, high, low, close, volume });
+        }
+
+        const next = ohlcv[ohlcv.length - 1][0] + HOUR_MS;
+        if (next <= since) break;
+        since = next;
+      }
+    } catch (error: any) {
+      console.warn(`⚠️ Could not load ${coin} hour candles: ${error.message}`);
+    }
+
+    return candles;
+  }
+
+  private buildReport(results: BacktestMarketResult[], options: BacktestOptions): BacktestReport {
+    const ordered = [...results].sort((a, b) => a.marketEndTime - b.marketEndTime);
+
+    // Drawdown of the equity curve, marked at each market's settlement
+    let equity = 0;
+    let peak = 0;
+    let maxDrawdown = 0;
+    for (const result of ordered) {
+      equity += result.pnl;
+      peak = Math.max(peak, equity);
+      maxDrawdown = Math.max(maxDrawdown, peak - equity);
+    }
+
+    const byCoin: BacktestReport['byCoin'] = {};
+    for (const result of ordered) {
+      const coin = byCoin[result.coin] || { markets: 0, pnl: 0, winRate: 0, trades: 0 };
+      coin.markets++;
+      coin.pnl += result.pnl;
+      coin.trades += result.trades;
+      coin.winRate += result.pnl > 0 ? 1 : 0; // wins, converted to a rate below
+      byCoin[result.coin] = coin;
+    }
+    for (const coin of Object.values(byCoin)) {
+      coin.winRate = coin.winRate / coin.markets;
+    }
+
+    const wins = ordered.filter(r => r.pnl > 0).length;
+
+    return {
+      from: options.from,
+      to: options.to,
+      markets: ordered,
+      totalPnl: ordered.reduce((sum, r) => sum + r.pnl, 0),
+      totalCost: ordered.reduce((sum, r) => sum + r.costBasis, 0),
+      winRate: ordered.length > 0 ? wins / ordered.length : 0,
+      maxDrawdown,
+      totalTrades: ordered.reduce((sum, r) => sum + r.trades, 0),
+      byCoin,
+    };
+  }
+
+  private toMarketData(snapshot: MarketSnapshot, hourOpen: number): MarketData {
+    return {
+      symbol: snapshot.coin,
+      price: snapshot.price,
+      hourOpen,
+      priceChange1m: snapshot.priceChange1m,
+      priceChange5m: snapshot.priceChange5m,
+      priceChange15m: snapshot.priceChange15m,
+      priceChange1h: ((snapshot.price - hourOpen) / hourOpen) * 100,
+      volume24h: 0,
+      volatility: snapshot.volatility,
+      timestamp: snapshot.timestamp,
+    };
+  }
+
+  private toOrderBook(assetId: string, bestBid: number, bestAsk: number, timestamp: number, depth: number): OrderBookData {
+    const bids = bestBid > 0 ? [{ price: bestBid, size: depth }] : [];
+    const asks = bestAsk > 0 ? [{ price: bestAsk, size: depth }] : [];
+
+    return {
+      assetId,
+      bids,
+      asks,
+      bestBid,
+      bestAsk,
+      spread: bestAsk - bestBid,
+      mid: (bestBid + bestAsk) / 2,
+      bidDepth: bids.length > 0 ? depth : 0,
+      askDepth: asks.length > 0 ? depth : 0,
+      timestamp,
+      inSync: true,
+    };
+  }
+
+  private toLocalBook(book: OrderBookData, market: string): LocalOrderBook {
+    return {
+      assetId: book.assetId,
+      market,
+      bids: book.bids,
+      asks: book.asks,
+      hash: '',
+      timestamp: book.timestamp,
+      receivedAt: book.timestamp,
+      deltasSinceSnapshot: 0,
+      inSync: true,
+    };
+  }
+}
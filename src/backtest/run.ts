@@ -0,0 +1,69 @@
+// ============================================================================
+// BACKTEST ENTRY POINT (src/backtest/run.ts)
+// ============================================================================
+//
+// npm run backtest -- --from 2026-01-01 --to 2026-01-08 [--coin BTC] [--depth 500]
+
+import { config } from "../config";
+import { DatabaseClient } from "../database/client";
+import { Backtester } from "./Backtester";
+
+function parseArgs(argv: string[]): Record<string, string> {
+  const args: Record<string, string> = {};
+  for (let i = 0; i < argv.length; i++) {
+    if (argv[i].startsWith('--') && i + 1 < argv.length) {
+      args[argv[i].slice(2)] = argv[++i];
+    }
+  }
+  return args;
+}
+
+async function main() {
+  const args = parseArgs(process.argv.slice(2));
+
+  const to = args.to ? Date.parse(args.to) : Date.now();
+  const from = args.from ? Date.parse(args.from) : to - 24 * 60 * 60 * 1000;
+  if (isNaN(from) || isNaN(to) || from >= to) {
+    throw new Error(`Invalid date range: --from ${args.from} --to ${args.to}`);
+  }
+
+  const db = new DatabaseClient();
+  const backtester = new Backtester(config, db);
+
+  try {
+    const report = await backtester.run({
+      from,
+      to,
+      coin: args.coin?.toUpperCase(),
+      bookDepthShares: args.depth ? parseInt(args.depth) : 1000,
+    });
+
+    console.log(`\n📈 Backtest ${new Date(from).toISOString()} → ${new Date(to).toISOString()}\n`);
+    console.table(report.markets.map(m => ({
+      coin: m.coin,
+      market: m.marketSlug,
+      entry: `${m.entrySide} @ ${m.entryPrice.toFixed(3)}`,
+      outcome: m.outcome,
+      up: m.upBalance,
+      down: m.downBalance,
+      cost: m.costBasis.toFixed(2),
+      pnl: m.pnl.toFixed(2),
+      trades: m.trades,
+    })));
+    console.table(report.byCoin);
+
+    console.log(`   Markets: ${report.markets.length}`);
+    console.log(`   Trades: ${report.totalTrades}`);
+    console.log(`   Total cost: $${report.totalCost.toFixed(2)}`);
+    console.log(`   Total P&L: $${report.totalPnl.toFixed(2)}`);
+    console.log(`   Win rate: ${(report.winRate * 100).toFixed(1)}%`);
+    console.log(`   Max drawdown: $${report.maxDrawdown.toFixed(2)}`);
+  } finally {
+    await db.close();
+  }
+}
+
+main().catch(error => {
+  console.error('❌ Backtest failed:', error);
+  process.exit(1);
+});
@@ -10,8 +10,11 @@ export interface CoinConfig {
   ccxtSymbol: string;       // 'BTC/USDT'
   polymarketSlug: string;   // 'bitcoin-up-or-down'
   enabled: boolean;
+  strategy?: string;        // Registered strategy name, 'default' when unset
 }
 
+export type ExecutionMode = 'paper' | 'live';
+
 export interface BotConfig {
   coins: CoinConfig[];
   polymarket: {
@@ -23,6 +26,37 @@ export interface BotConfig {
     privateKey: string;
     gammaApiUrl: string;
     wsUrl: string;
+    userWsUrl: string;
+  };
+  marketData: {
+    tradeTapeWindowMs: number;  // Rolling window for per-asset trade statistics
+  };
+  pricing: {
+    volatilityWindowMinutes: number;  // Realized volatility lookback for the fair-value model
+    minVolatilityPerMinute: number;   // Floor on 1m volatility so quiet periods don't price near 0/1
+  };
+  staleData: {
+    maxPriceAgeMs: number;      // Refuse to trade on a Binance price that hasn't updated for this long
+    maxBookAgeMs: number;       // ...or on a Polymarket book with nothing heard for this long
+    checkIntervalMs: number;    // How often feeds are checked for stale alerts
+  };
+  api: {
+    enabled: boolean;           // Serve the REST API alongside the bot (off unless API_ENABLED=true)
+    host: string;               // Interface to listen on - loopback only unless opened up explicitly
+    port: number;
+    corsOrigin: string;         // Comma-separated dashboard origins allowed by CORS (empty: none)
+    defaultPageSize: number;    // List endpoints return this many rows without ?limit
+    maxPageSize: number;
+    operators: Record<string, string>;  // Bearer token -> operator name for /api/control (empty disables it)
+  };
+  reconnect: {
+    baseDelayMs: number;        // First websocket reconnect delay, doubled after each failed attempt
+    maxDelayMs: number;         // Cap on that delay - reconnects never give up
+  };
+  feeds: {
+    record: boolean;            // Write every raw Binance/Polymarket message to recordDir
+    recordDir: string;
+    replayFile: string | null;  // Replay a recording instead of connecting (paper mode only)
   };
   ccxt: {
     exchange: string;
@@ -31,10 +65,46 @@ export interface BotConfig {
       defaultType: string;
     };
   };
+  execution: {
+    mode: ExecutionMode;    // 'paper' simulates fills, 'live' posts to the CLOB
+    paper: {
+      latencyMs: number;        // Simulated order round-trip before matching
+      restingTimeoutMs: number; // Unfilled remainder rests this long, then is cancelled
+    };
+    orders: {
+      ttlMs: number;            // Live orders still open after this are cancelled
+      pollIntervalMs: number;   // How often open live orders are checked on the CLOB
+    };
+  };
+  arbitrage: {
+    enabled: boolean;           // Watch every active market for UP ask + DOWN ask < 1
+    execute: boolean;           // Buy both legs into the open position; otherwise only log
+    feeBps: number;             // Taker fee charged on each leg
+    minEdgePerShare: number;    // Required profit per pair after fees
+    minShares: number;          // Ignore opportunities thinner than this
+    maxCostUSDC: number;        // Cap on a single paired purchase
+    cooldownMs: number;         // Minimum gap between records for the same market (detections in between are only counted)
+  };
+  reconciliation: {
+    intervalMs: number;         // How often live balances are checked against the DB
+    toleranceShares: number;    // Differences below this are ignored
+    autoCorrect: boolean;       // Overwrite DB balances and cancel orphaned orders
+  };
+  settlement: {
+    rpcUrl: string;                     // Polygon JSON-RPC endpoint used to send redemptions
+    conditionalTokensAddress: string;   // Gnosis ConditionalTokens (CTF) contract
+    collateralAddress: string;          // USDC collateral the CTF pays out in
+    intervalMs: number;                 // How often resolved positions are checked for redemption
+    maxAttempts: number;                // Stop retrying a market's redemption after this many failures
+    retryBaseMs: number;                // Wait after the first failure, doubled after each one after it
+    retryMaxMs: number;                 // Cap on that wait
+  };
   trading: {
     maxPositionSizeUSDC: number;
     minProfitThreshold: number;
     stopLossThreshold: number;
+    minConfidence: number;        // Skip entry when the prediction's confidence is below this (0-100)
+    exitLossPct: number;          // Sell an unhedged position once exiting at the bids would lose this % of its cost
   };
   rebalancing: {
     checkIntervalSeconds: number;
@@ -42,13 +112,39 @@ export interface BotConfig {
     maxPriceSlippagePct: number;
     aggressiveThresholdPct: number;
   };
+  quoting: {
+    enabled: boolean;           // Rebalance with resting post-only bids instead of buying at the ask
+    baseSpread: number;         // How far below fair value (or mid) a balanced-ish position bids
+    inventorySkew: number;      // 0-1: share of baseSpread given up as the imbalance approaches the whole position
+    maxShares: number;          // Largest single resting bid
+    repriceTicks: number;       // Replace the bid once its ideal price moves this many ticks
+    refreshIntervalMs: number;  // Minimum gap between book-driven re-quotes per coin
+    cancelBeforeEndMs: number;  // Pull quotes this long before marketEndTime
+  };
   risk: {
     maxTotalExposure: number;
     maxConcurrentPositions: number;
     emergencyStopLoss: number;
+    maxDailyLoss: number;           // Halt once the ET calendar day's P&L (realized + marked at the bids) drops this far
+    maxDrawdown: number;            // Halt once session P&L falls this far below its peak
+    maxConsecutiveLosses: number;   // Halt after this many losing positions in a row
+    supervisorIntervalMs: number;   // How often P&L is re-marked against those limits
+    resumeOnStart: boolean;         // Clear a persisted halt at startup instead of staying halted
   };
 }
 
+/**
+ * Parse "name:token,name:token" into a token -> name lookup
+ */
+function parseOperatorTokens(value: string | undefined): Record<string, string> {
+  const operators: Record<string, string> = {};
+  for (const entry of (value || '').split(',')) {
+    const [name, token] = entry.split(':').map(part => part?.trim());
+    if (name && token) operators[token] = name;
+  }
+  return operators;
+}
+
 export const config: BotConfig = {
   coins: [
     {
@@ -85,6 +181,37 @@ export const config: BotConfig = {
     privateKey: process.env.PRIVATE_KEY!,
     gammaApiUrl: process.env.POLYMARKET_GAMMA_API || 'https://gamma-api.polymarket.com',
     wsUrl: process.env.POLYMARKET_WSS_URL || 'wss://ws-subscriptions-clob.polymarket.com/ws/market',
+    userWsUrl: process.env.POLYMARKET_USER_WSS_URL || 'wss://ws-subscriptions-clob.polymarket.com/ws/user',
+  },
+  marketData: {
+    tradeTapeWindowMs: 5 * 60 * 1000,
+  },
+  pricing: {
+    volatilityWindowMinutes: 60,
+    minVolatilityPerMinute: 0.0003,
+  },
+  staleData: {
+    maxPriceAgeMs: 30000,
+    maxBookAgeMs: 60000,
+    checkIntervalMs: 5000,
+  },
+  api: {
+    enabled: process.env.API_ENABLED === 'true',
+    host: process.env.API_HOST || '127.0.0.1',
+    port: parseInt(process.env.API_PORT || '3000'),
+    corsOrigin: process.env.API_CORS_ORIGIN || '',
+    defaultPageSize: 50,
+    maxPageSize: 500,
+    operators: parseOperatorTokens(process.env.API_OPERATOR_TOKENS),
+  },
+  reconnect: {
+    baseDelayMs: 1000,
+    maxDelayMs: 60000,
+  },
+  feeds: {
+    record: process.env.RECORD_FEEDS === 'true',
+    recordDir: process.env.RECORD_FEEDS_DIR || 'recordings',
+    replayFile: process.env.REPLAY_FILE || null,
   },
   ccxt: {
     exchange: 'binance',
@@ -93,10 +220,46 @@ export const config: BotConfig = {
       defaultType: 'spot',
     },
   },
+  execution: {
+    mode: process.env.TRADING_MODE === 'live' ? 'live' : 'paper',
+    paper: {
+      latencyMs: 250,
+      restingTimeoutMs: 8000,
+    },
+    orders: {
+      ttlMs: 8000,
+      pollIntervalMs: 2000,
+    },
+  },
+  arbitrage: {
+    enabled: true,
+    execute: process.env.ARBITRAGE_EXECUTE === 'true',
+    feeBps: 0,
+    minEdgePerShare: 0.01,
+    minShares: 5,
+    maxCostUSDC: 100,
+    cooldownMs: 5000,
+  },
+  reconciliation: {
+    intervalMs: 5 * 60 * 1000,
+    toleranceShares: 0.01,
+    autoCorrect: process.env.RECONCILE_AUTOCORRECT === 'true',
+  },
+  settlement: {
+    rpcUrl: process.env.POLYGON_RPC_URL || 'https://polygon-rpc.com',
+    conditionalTokensAddress: process.env.CTF_ADDRESS || '0x4D97DCd97eC945f40cF65F87097ACe5EA0476045',
+    collateralAddress: process.env.COLLATERAL_ADDRESS || '0x2791Bca1f2de4661ED88A30C99A7a9449Aa84174',
+    intervalMs: 10 * 60 * 1000,
+    maxAttempts: 5,
+    retryBaseMs: 10 * 60 * 1000,
+    retryMaxMs: 6 * 60 * 60 * 1000,
+  },
   trading: {
     maxPositionSizeUSDC: 100,
     minProfitThreshold: 5,
     stopLossThreshold: 15,
+    minConfidence: 55,
+    exitLossPct: 50,
   },
   rebalancing: {
     checkIntervalSeconds: 10,
@@ -104,10 +267,24 @@ export const config: BotConfig = {
     maxPriceSlippagePct: 5,
     aggressiveThresholdPct: 50,
   },
+  quoting: {
+    enabled: process.env.MAKER_QUOTING === 'true',
+    baseSpread: 0.03,
+    inventorySkew: 0.8,
+    maxShares: 200,
+    repriceTicks: 1,
+    refreshIntervalMs: 1000,
+    cancelBeforeEndMs: 2 * 60 * 1000,
+  },
   risk: {
     maxTotalExposure: 500,
     maxConcurrentPositions: 4,
     emergencyStopLoss: 25,
+    maxDailyLoss: 150,
+    maxDrawdown: 200,
+    maxConsecutiveLosses: 5,
+    supervisorIntervalMs: 30000,
+    resumeOnStart: process.env.RISK_RESUME === 'true',
   },
 };
 
@@ -4,33 +4,165 @@
 
 import { BotConfig, CoinConfig } from "../config";
 import { BinanceWebSocketDataProvider } from "../data/WebSocketDataProvider";
+import { FeedHealthMonitor, FeedWatch } from "../data/FeedHealthMonitor";
 import { PolymarketClient } from "../polymarket/PolymarketClient";
-import { RebalancingEngine } from "../strategy/RebalancingEngine";
+import { PolymarketUserWebSocket } from "../polymarket/userWebsocket";
+import { Strategy, createStrategy } from "../strategy/Strategy";
 import { DatabaseClient } from "../database/client";
-import { PolymarketMarket, Position, MarketSession } from "../types";
+import { OrderExecutor, createOrderExecutor } from "../trading/OrderExecutor";
+import { OrderManager } from "../trading/OrderManager";
+import { BalanceReconciler } from "../trading/BalanceReconciler";
+import { MarketResolver } from "../trading/MarketResolver";
+import { SettlementWorker } from "../trading/SettlementWorker";
+import { ArbitrageDetector } from "../trading/ArbitrageDetector";
+import { QuoteManager } from "../trading/QuoteManager";
+import { PositionManager } from "../trading/PositionManager";
+import { RiskSupervisor } from "../trading/RiskSupervisor";
+import { PositionValuer } from "../trading/PositionValuer";
+import { FairValueModel } from "../pricing/FairValueModel";
+import { FeedRecorder } from "../replay/FeedRecorder";
+import { FeedReplayer } from "../replay/FeedReplayer";
+import { Clock, TimerHandle, VirtualClock, systemClock } from "../utils/clock";
+import { walkLevels } from "../utils/orderbook";
+import { ArbitrageOpportunity, ExecutionResult, FairValue, FeedAlert, MarketData, PolymarketMarket, Position, PositionValuation, MarketSession, QuoteFill, RiskCheck, RiskVerdict, StrategyContext, TapeTrade, TrackedOrder, TradeIntent } from "../types";
+import { LocalOrderBook } from "../polymarket/types";
 import { DateTime } from 'luxon';
+import { providers } from 'ethers';
 
 export class TradingBot {
   private config: BotConfig;
   private dataProvider: BinanceWebSocketDataProvider;
   private polymarket: PolymarketClient;
-  private rebalancingEngine: RebalancingEngine;
+  private feedMonitor: FeedHealthMonitor;
+  private strategies: Map<string, Strategy> = new Map();
   private db: DatabaseClient;
+  private orderManager: OrderManager;
+  private positionManager: PositionManager;
+  private riskSupervisor: RiskSupervisor;
+  private riskTimer: TimerHandle | null = null;
+  private refreshTimer: TimerHandle | null = null;
+  private pausedAll: boolean = false;
+  private pausedCoins: Set<string> = new Set();
+  private refreshing: boolean = false;
+  private userChannel: PolymarketUserWebSocket | null = null;
+  private reconciler: BalanceReconciler | null = null;
+  private reconcileTimer: TimerHandle | null = null;
+  private resolver: MarketResolver;
+  private fairValueModel: FairValueModel;
+  private valuer: PositionValuer = new PositionValuer();
+  private arbitrage: ArbitrageDetector | null = null;
+  private lastArbitrageRecord: Map<string, number> = new Map();
+  private suppressedArbitrage: Map<string, number> = new Map();   // Detections inside the cooldown since the last record
+  private quoteManager: QuoteManager | null = null;
+  private lastQuoteRefresh: Map<string, number> = new Map();
+  private riskBlockedQuotes: Set<string> = new Set();
+  private quoteFills: Map<string, Promise<void>> = new Map();
+  private settlementWorker: SettlementWorker | null = null;
+  private executor: OrderExecutor;
+  private clock: Clock;
+  private recorder: FeedRecorder | null = null;
 
   private activeSessions: Map<string, MarketSession> = new Map();
-  private rebalanceTimers: Map<string, NodeJS.Timeout> = new Map();
+  private rebalanceTimers: Map<string, TimerHandle> = new Map();
+  private ticksInProgress: Set<string> = new Set();
   private running: boolean = false;
 
-  constructor(config: BotConfig) {
+  constructor(config: BotConfig, clock: Clock = systemClock) {
+    if (config.feeds.replayFile && config.execution.mode === 'live') {
+      throw new Error('Feed replay only runs in paper mode');
+    }
+
     this.config = config;
-    this.dataProvider = new BinanceWebSocketDataProvider(config);
-    this.polymarket = new PolymarketClient(config);
-    this.rebalancingEngine = new RebalancingEngine();
+    this.clock = clock;
+    this.dataProvider = new BinanceWebSocketDataProvider(config, clock);
+    this.polymarket = new PolymarketClient(config, clock);
+    this.feedMonitor = new FeedHealthMonitor(this.dataProvider, this.polymarket, config.staleData, clock);
+    for (const coin of config.coins) {
+      this.strategies.set(coin.symbol, createStrategy(coin.strategy, config));
+    }
     this.db = new DatabaseClient();
+    this.positionManager = new PositionManager(config, this.db, clock);
+    this.riskSupervisor = new RiskSupervisor(config.risk, this.db, position => this.markPosition(position), clock);
+    this.resolver = new MarketResolver(this.polymarket, this.dataProvider, clock);
+    this.fairValueModel = new FairValueModel(config);
+    this.orderManager = new OrderManager(this.polymarket, this.db, config.execution.orders, clock);
+    this.executor = createOrderExecutor(config, this.polymarket, this.orderManager, clock);
+
+    // Live fills are confirmed from our own order/trade stream rather than assumed
+    if (this.executor.mode === 'live') {
+      this.userChannel = new PolymarketUserWebSocket(config);
+      this.orderManager.attachUserChannel(this.userChannel);
+      this.orderManager.on('fill_reverted', ({ order, shares, price }: { order: TrackedOrder; shares: number; price: number }) => {
+        this.revertFill(order, shares, price).catch(err => console.error('❌ Failed to revert fill:', err.message));
+      });
+      this.reconciler = new BalanceReconciler(this.polymarket, this.db, this.orderManager, config.reconciliation, clock);
+
+      const provider = new providers.JsonRpcProvider(config.settlement.rpcUrl);
+      this.settlementWorker = new SettlementWorker(
+        this.db,
+        this.polymarket.getWallet().connect(provider),
+        config.settlement,
+        clock
+      );
+    }
+
+    if (config.feeds.record && !config.feeds.replayFile) {
+      const recorder = new FeedRecorder(config.feeds.recordDir);
+      this.dataProvider.on('raw', (text: string) => recorder.record('binance', text, this.clock.now()));
+      this.polymarket.on('raw', (text: string) => recorder.record('polymarket', text, this.clock.now()));
+      this.recorder = recorder;
+    }
+
+    // Only strategies that react to individual book changes pay for the dispatch
+    if (Array.from(this.strategies.values()).some(s => s.onBookUpdate)) {
+      this.polymarket.on('book_update', (book: LocalOrderBook) => {
+        this.handleBookUpdate(book).catch(err => console.error('❌ Strategy book update failed:', err.message));
+      });
+    }
+
+    if (config.arbitrage.enabled) {
+      this.arbitrage = new ArbitrageDetector(config.arbitrage);
+      this.polymarket.on('book_update', (book: LocalOrderBook) => {
+        this.handleArbitrageCheck(book).catch(err => console.error('❌ Arbitrage check failed:', err.message));
+      });
+    }
+
+    if (config.quoting.enabled) {
+      this.quoteManager = new QuoteManager(this.executor, this.orderManager, config.quoting, clock);
+      this.quoteManager.on('fill', (fill: QuoteFill) => {
+        // One coin's fills are applied in order, and ticks can wait for them to land
+        const applied = (this.quoteFills.get(fill.coin) || Promise.resolve())
+          .then(() => this.applyQuoteFill(fill))
+          .catch(err => console.error('❌ Failed to apply quote fill:', err.message));
+        this.quoteFills.set(fill.coin, applied);
+      });
+      this.polymarket.on('book_update', (book: LocalOrderBook) => {
+        this.handleQuoteRefresh(book).catch(err => console.error('❌ Quote refresh failed:', err.message));
+      });
+      this.riskSupervisor.on('halt', () => {
+        this.quoteManager!.cancelAll().catch(err => console.error('❌ Failed to pull quotes on halt:', err.message));
+      });
+    }
+
+    this.feedMonitor.on('stale', (alert: FeedAlert) => {
+      console.error(`\n🚨 STALE DATA ${alert.coin}: ${alert.reason} - trading paused`);
+      // Don't leave a bid resting on prices we can no longer see
+      this.quoteManager?.cancel(alert.coin).catch(err => console.error('❌ Failed to pull quote:', err.message));
+    });
+    this.feedMonitor.on('recovered', (coin: string) => {
+      console.log(`\n✅ ${coin}: Feeds are current again - trading resumes`);
+    });
+
+    // Persist the Polymarket trade tape for research
+    this.polymarket.on('trade', (trade: TapeTrade) => {
+      this.db.insertTapeTrade(this.polymarket.getCoinForAsset(trade.assetId), trade)
+        .catch(err => console.error('Failed to persist tape trade:', err.message));
+    });
   }
 
   async start(): Promise<void> {
     console.log('\n🤖 Starting Professional Polymarket Rebalancing Bot\n');
+    console.log(`⚙️ Execution mode: ${this.executor.mode.toUpperCase()}`);
 
     // Test database connection
     const dbHealthy = await this.db.healthCheck();
@@ -38,6 +170,9 @@ export class TradingBot {
       throw new Error('Database connection failed');
     }
 
+    // A halt survives restarts - come back up halted unless told otherwise
+    await this.riskSupervisor.load();
+
     // STEP 1: Subscribe to Binance WebSocket for market feed
     console.log('📊 Step 1: Subscribing to Binance WebSocket...');
     await this.dataProvider.start(this.config.coins);
@@ -51,12 +186,19 @@ export class TradingBot {
 
     // Start Polymarket client
     await this.polymarket.start();
+    this.orderManager.start();
+    this.userChannel?.connect();
 
     this.running = true;
 
     // STEP 3-6: Discover markets, subscribe to Polymarket, and start trading
     await this.initializeMarketsAndTrading();
 
+    this.startReconciliation();
+    this.startRiskSupervision();
+    this.feedMonitor.start(() => this.watchedFeeds());
+    this.settlementWorker?.start();
+
     console.log('\n✅ Bot is running\n');
   }
 
@@ -109,6 +251,10 @@ export class TradingBot {
 
     console.log(`\n📊 Step 4: Extracted ${marketPairs.length * 2} CLOB asset IDs from ${marketPairs.length} markets`);
 
+    this.userChannel?.setMarkets(
+      marketPairs.map(mp => mp.market.conditionId).filter((id): id is string => !!id)
+    );
+
     // STEP 5: Subscribe to Polymarket WebSocket in pairs (2 IDs at a time)
     console.log('\n📡 Step 5: Subscribing to Polymarket WebSocket in pairs...');
     await this.polymarket.subscribeInPairs(marketPairs.map(mp => ({
@@ -127,10 +273,17 @@ export class TradingBot {
       const coinConfig = this.config.coins.find(c => c.symbol === coin);
       if (!coinConfig) continue;
 
+      // An on-demand refresh can land mid-hour - leave markets we're already trading alone
+      const current = this.activeSessions.get(coin);
+      if (current?.active && current.market.slug === market.slug) {
+        console.log(`   ↩️ ${coin}: Already trading ${market.slug}`);
+        continue;
+      }
+
       const session: MarketSession = {
         coin,
         market,
-        startTime: Date.now(),
+        startTime: this.clock.now(),
         endTime,
         active: true,
       };
@@ -143,7 +296,10 @@ export class TradingBot {
       if (existingPosition) {
         console.log(`   📍 ${coin}: Resuming existing position: ${existingPosition.id}`);
         session.positionId = existingPosition.id;
-        this.startRebalancing(existingPosition, session);
+
+        // A crash mid-trade can leave DB balances out of step with the wallet
+        const reconciled = await this.reconcilePosition(existingPosition);
+        this.startRebalancing(reconciled, session);
       } else {
         await this.enterInitialPositionWithRetry(coinConfig, session);
       }
@@ -156,12 +312,94 @@ export class TradingBot {
     }
   }
 
+  /**
+   * Check a position's DB balances against the wallet (live mode only)
+   */
+  private async reconcilePosition(position: Position): Promise<Position> {
+    if (!this.reconciler) return position;
+
+    try {
+      return await this.reconciler.reconcile(position);
+    } catch (err: any) {
+      console.error(`❌ Reconciliation failed for ${position.coin}:`, err.message);
+      return position;
+    }
+  }
+
+  /**
+   * Periodically reconcile every open position that isn't mid-trade
+   */
+  private startReconciliation(): void {
+    if (!this.reconciler) return;
+
+    this.reconcileTimer = this.clock.setInterval(async () => {
+      if (!this.running) return;
+
+      for (const session of this.activeSessions.values()) {
+        if (!session.active || !session.positionId) continue;
+        if (this.ticksInProgress.has(session.coin)) continue;
+
+        this.ticksInProgress.add(session.coin);
+        try {
+          const position = await this.db.getPosition(session.positionId);
+          if (position && position.status === 'OPEN') {
+            await this.reconcilePosition(position);
+          }
+        } finally {
+          this.ticksInProgress.delete(session.coin);
+        }
+      }
+    }, this.config.reconciliation.intervalMs);
+  }
+
+  /**
+   * Periodically re-mark P&L against the daily loss, drawdown and losing-streak limits
+   */
+  private startRiskSupervision(): void {
+    this.riskTimer = this.clock.setInterval(async () => {
+      if (!this.running) return;
+
+      try {
+        await this.riskSupervisor.evaluate();
+      } catch (err: any) {
+        console.error('❌ Risk supervision failed:', err.message);
+      }
+    }, this.config.risk.supervisorIntervalMs);
+  }
+
+  /**
+   * Coins with a live market session and the books each one trades on
+   */
+  private watchedFeeds(): FeedWatch[] {
+    return Array.from(this.activeSessions.values())
+      .filter(session => session.active)
+      .map(session => ({ coin: session.coin, assetIds: JSON.parse(session.market.clobTokenIds) }));
+  }
+
+  /**
+   * What a position's shares would fetch at the bids right now (null without both books)
+   */
+  private markPosition(position: Position): number | null {
+    return this.valuePosition(position)?.liquidationValue ?? null;
+  }
+
+  /**
+   * Mark a position against the current books (null without both books)
+   */
+  private valuePosition(position: Position): PositionValuation | null {
+    const upBook = this.polymarket.getOrderBook(position.assetIds.up);
+    const downBook = this.polymarket.getOrderBook(position.assetIds.down);
+    if (!upBook || !downBook) return null;
+
+    return this.valuer.value(position, upBook, downBook, this.clock.now());
+  }
+
   /**
    * Schedule market refresh to run 5 minutes before market ends
    */
   private scheduleMarketRefresh(marketEndTime: number): void {
     const refreshTime = marketEndTime - (5 * 60 * 1000); // 5 minutes before end
-    const now = Date.now();
+    const now = this.clock.now();
     const delay = refreshTime - now;
 
     if (delay <= 0) {
@@ -177,11 +415,18 @@ export class TradingBot {
     console.log(`   Refresh at: ${refreshTimeStr} ET (5 minutes before)`);
     console.log(`   Time until refresh: ${Math.floor(delay / 60000)} minutes`);
 
-    setTimeout(async () => {
+    // Only the latest schedule counts - an on-demand refresh reschedules
+    this.clock.clearTimeout(this.refreshTimer);
+    this.refreshTimer = this.clock.setTimeout(async () => {
       if (!this.running) return;
 
       console.log('\n🔄 Market refresh triggered - fetching new active markets...');
-      await this.initializeMarketsAndTrading(false);
+      this.refreshing = true;
+      try {
+        await this.initializeMarketsAndTrading(false);
+      } finally {
+        this.refreshing = false;
+      }
     }, delay);
   }
 
@@ -251,7 +496,7 @@ export class TradingBot {
         endDay = dayNum + 1;
       }
 
-      const year = new Date().getFullYear();
+      const year = new Date(this.clock.now()).getFullYear();
 
       const endTime = DateTime.fromObject({
         year,
@@ -287,10 +532,16 @@ export class TradingBot {
       try {
         console.log(`\n🎯 Attempting to enter position for ${coin.symbol} (Attempt ${attempt}/${maxRetries})`);
 
-        await this.enterInitialPosition(coin, session);
+        const entered = await this.enterInitialPosition(coin, session);
         success = true;
 
-        console.log(`✅ Successfully entered position for ${coin.symbol}`);
+        if (entered) {
+          console.log(`✅ Successfully entered position for ${coin.symbol}`);
+        } else {
+          // A deliberate skip, not a failure - sit the market out without retrying
+          session.active = false;
+          this.polymarket.unsubscribeFromMarket(coin.symbol);
+        }
       } catch (error) {
         console.error(`❌ Failed to enter position for ${coin.symbol} (Attempt ${attempt}/${maxRetries}):`, error);
 
@@ -310,9 +561,10 @@ export class TradingBot {
   }
 
   /**
-   * Enter initial position at start of market
+   * Enter initial position at start of market. Resolves false when the
+   * strategy declines the market; throws when entry should be retried.
    */
-  private async enterInitialPosition(coin: CoinConfig, session: MarketSession): Promise<void> {
+  private async enterInitialPosition(coin: CoinConfig, session: MarketSession): Promise<boolean> {
     const marketData = this.dataProvider.getMarketData(coin.symbol);
 
     if (!marketData) {
@@ -329,43 +581,76 @@ export class TradingBot {
       throw new Error(`No orderbook data for ${coin.symbol}`);
     }
 
-    // Determine initial direction based on price momentum
-    const side = marketData.priceChange5m > 0 ? 'UP' : 'DOWN';
-    const entryPrice = side === 'UP' ? upBook.bestAsk : downBook.bestAsk;
-    const tokenId = side === 'UP' ? upAssetId : downAssetId;
+    const stale = this.feedMonitor.check(coin.symbol, [upAssetId, downAssetId]);
+    if (stale) {
+      throw new Error(`Stale data: ${stale}`);
+    }
 
-    // Validate entry price
-    if (entryPrice <= 0 || entryPrice >= 1) {
-      throw new Error(`Invalid entry price: ${entryPrice}`);
+    // Books without a usable ask are still loading - retry rather than ask the strategy
+    for (const ask of [upBook.bestAsk, downBook.bestAsk]) {
+      if (ask <= 0 || ask >= 1) {
+        throw new Error(`Invalid entry price: ${ask}`);
+      }
     }
 
-    // Calculate position size
-    const sizeUSDC = this.config.trading.maxPositionSizeUSDC;
-    const shares = Math.floor(sizeUSDC / entryPrice);
+    const strategy = this.strategies.get(coin.symbol)!;
+    const entry = strategy.onMarketOpen({
+      coin: coin.symbol,
+      marketSlug: session.market.slug,
+      marketEndTime: session.endTime,
+      minutesRemaining: Math.floor((session.endTime - this.clock.now()) / 60000),
+      position: null,
+      marketData,
+      upBook,
+      downBook,
+      fairValue: this.getFairValue(marketData, session.endTime),
+    })[0];
+
+    if (!entry || entry.shares <= 0) {
+      console.log(`\n⏭️ ${coin.symbol}: ${strategy.name} strategy skipped this market`);
+      return false;
+    }
 
-    const costBasis = shares * entryPrice;
+    const side = entry.side;
+    const entryPrice = entry.price;
+    const requestedShares = entry.shares;
+    const tokenId = side === 'UP' ? upAssetId : downAssetId;
 
-    console.log(`\n💡 ${coin.symbol}: Entering ${side} position`);
-    console.log(`   Price: $${marketData.price.toFixed(2)}`);
-    console.log(`   Entry: ${side} @ ${entryPrice.toFixed(4)} x ${shares} = $${costBasis.toFixed(2)}`);
+    const verdict = await this.checkRisk('ENTRY', coin.symbol, requestedShares, entryPrice, { side });
+    if (!verdict.allowed) {
+      return false;
+    }
 
-    // COMMENTED OUT - Real order execution
-    // const success = await this.polymarket.buyShares(tokenId, shares, entryPrice);
+    console.log(`\n💡 ${coin.symbol}: Entering ${side} position (${strategy.name} strategy)`);
+    console.log(`   Price: $${marketData.price.toFixed(2)}`);
+    if (entry.confidence !== undefined) {
+      console.log(`   Confidence: ${entry.confidence}%`);
+    }
+    entry.reasons?.forEach(reason => console.log(`   - ${reason}`));
+    console.log(`   Entry: ${side} @ ${entryPrice.toFixed(4)} x ${requestedShares} = $${(requestedShares * entryPrice).toFixed(2)}`);
+
+    const result = await this.executor.execute({
+      tokenId,
+      side: 'BUY',
+      shares: requestedShares,
+      price: entryPrice,
+      coin: coin.symbol,
+    });
 
-    // Simulate success for database logging
-    const success = true;
+    if (result.success && result.filledShares > 0) {
+      const shares = result.filledShares;
+      const costBasis = shares * result.avgPrice;
 
-    if (success) {
       const position: Position = {
-        id: `${coin.symbol}_${Date.now()}`,
+        id: `${coin.symbol}_${this.clock.now()}`,
         coin: coin.symbol,
         marketId: session.market.id,
         marketSlug: session.market.slug,
         side,
-        entryPrice,
+        entryPrice: result.avgPrice,
         shares,
         costBasis,
-        entryTime: Date.now(),
+        entryTime: this.clock.now(),
         hourOpenPrice: marketData.price,
         marketEndTime: session.endTime,
         status: 'OPEN',
@@ -373,7 +658,9 @@ export class TradingBot {
           up: upAssetId,
           down: downAssetId,
         },
-        confidence: 60,
+        confidence: entry.confidence,
+        signalReasons: entry.reasons,
+        conditionId: session.market.conditionId,
         upBalance: side === 'UP' ? shares : 0,
         downBalance: side === 'DOWN' ? shares : 0,
       };
@@ -387,14 +674,18 @@ export class TradingBot {
         action: 'BUY',
         tokenId,
         shares,
-        price: entryPrice,
+        price: result.avgPrice,
         cost: costBasis,
         currentPrice: marketData.price,
         upBalance: position.upBalance!,
         downBalance: position.downBalance!,
         imbalance: Math.abs(position.upBalance! - position.downBalance!),
-        reason: 'Initial position entry',
-        executed: false, // Set to false since real trading is commented out
+        reason: entry.reason,
+        executed: true,
+        mode: this.executor.mode,
+        orderId: result.orderId,
+        confidence: entry.confidence,
+        signalReasons: entry.reasons,
       });
 
       session.positionId = position.id;
@@ -403,8 +694,9 @@ export class TradingBot {
 
       // Start rebalancing loop
       this.startRebalancing(position, session);
+      return true;
     } else {
-      throw new Error('Failed to execute buy order');
+      throw new Error(`Failed to execute buy order: ${result.error || 'no shares filled'}`);
     }
   }
 
@@ -414,76 +706,101 @@ export class TradingBot {
   private startRebalancing(position: Position, session: MarketSession): void {
     console.log(`\n⚖️ Starting rebalancing for ${position.coin}`);
 
-    const timer = setInterval(async () => {
+    const timer = this.clock.setInterval(async () => {
       if (!this.running) {
-        clearInterval(timer);
+        this.clock.clearInterval(timer);
         return;
       }
 
-      const now = Date.now();
+      // Orders can take longer than one tick to fill - never run two ticks for a coin at once
+      if (this.ticksInProgress.has(position.coin)) return;
+
+      const now = this.clock.now();
       const timeRemaining = session.endTime - now;
-      const minutesRemaining = Math.floor(timeRemaining / 60000);
 
-      // Stop if market ended
-      if (timeRemaining <= 0) {
-        console.log(`\n⏰ Market ended for ${position.coin}`);
-        await this.closePosition(position, session);
-        clearInterval(timer);
-        this.rebalanceTimers.delete(position.coin);
-        return;
-      }
+      this.ticksInProgress.add(position.coin);
+      try {
+        // Stop if market ended
+        if (timeRemaining <= 0) {
+          console.log(`\n⏰ Market ended for ${position.coin}`);
+          this.clock.clearInterval(timer);
+          this.rebalanceTimers.delete(position.coin);
+
+          const latestPosition = await this.cancelQuoteAndReload((await this.db.getPosition(position.id)) || position);
+          const context = this.buildStrategyContext(latestPosition, session);
+          if (context) {
+            await this.executeIntents(latestPosition, this.strategies.get(position.coin)!.onMarketClose(context), context);
+          }
+
+          await this.closePosition(position, session);
+          return;
+        }
 
-      await this.executeRebalancing(position, session, minutesRemaining);
+        const exited = await this.executeRebalancing(position, session);
+        if (exited) {
+          console.log(`\n🚪 ${position.coin}: Position fully sold before expiry`);
+          this.clock.clearInterval(timer);
+          this.rebalanceTimers.delete(position.coin);
+          await this.cancelQuoteAndReload(position);
+          await this.closePosition(position, session);
+        }
+      } finally {
+        this.ticksInProgress.delete(position.coin);
+      }
     }, 10000); // Check every 10 seconds
 
     this.rebalanceTimers.set(position.coin, timer);
   }
 
   /**
-   * Execute rebalancing logic
+   * Execute rebalancing logic. Resolves true once every share has been sold.
    */
   private async executeRebalancing(
     position: Position,
-    session: MarketSession,
-    minutesRemaining: number
-  ): Promise<void> {
+    session: MarketSession
+  ): Promise<boolean> {
     try {
       // Fetch latest position from DB
       const latestPosition = await this.db.getPosition(position.id);
-      if (!latestPosition) return;
+      if (!latestPosition) return false;
 
-      const marketData = this.dataProvider.getMarketData(position.coin);
-      if (!marketData) return;
+      const context = this.buildStrategyContext(latestPosition, session);
+      if (!context) return false;
 
-      const upBook = this.polymarket.getOrderBook(position.assetIds.up);
-      const downBook = this.polymarket.getOrderBook(position.assetIds.down);
-      if (!upBook || !downBook) return;
+      const { marketData, upBook, downBook, fairValue } = context;
 
-      const decision = this.rebalancingEngine.evaluateRebalancing(
-        latestPosition,
-        marketData,
-        upBook,
-        downBook
-      );
+      // Never decide on data from a feed that has gone quiet
+      const stale = this.feedMonitor.check(position.coin, [position.assetIds.up, position.assetIds.down]);
+      if (stale) {
+        console.log(`⏸️ ${position.coin}: ${stale}, waiting for fresh data`);
+        return false;
+      }
 
-      if (
-        decision.shouldRebalance &&
-        decision.action &&
-        decision.shares &&
-        decision.targetPrice
-      ) {
-        console.log(`\n⚖️ REBALANCING ${position.coin}`);
-        console.log(`   Action: ${decision.action}`);
-        console.log(`   Shares: ${decision.shares}`);
-        console.log(`   Target: $${decision.targetPrice.toFixed(4)}`);
-        console.log(`   Reason: ${decision.reason}`);
-        console.log(`   Time remaining: ${minutesRemaining}m`);
-
-        await this.executeRebalanceTrade(
-          latestPosition,
-          decision,
-          marketData.price
-        );
+      // Don't trade on a book that has drifted from the exchange; the next snapshot resyncs it
+      if (!upBook.inSync || !downBook.inSync) {
+        console.log(`⏸️ ${position.coin}: Order book out of sync, waiting for next snapshot`);
+        return false;
+      }
+
+      const verdict = this.positionManager.evaluatePosition(latestPosition, marketData.price, upBook.bestBid, downBook.bestBid);
+
+      if (verdict === 'STOP_LOSS') {
+        // The risk stop overrides whatever the strategy wants this tick
+        console.log(`\n🛑 ${position.coin}: Stop loss hit, exiting position`);
+        const exiting = await this.cancelQuoteAndReload(latestPosition);
+        await this.executeIntents(exiting, this.exitIntents(exiting, context, 'Risk stop loss'), context);
+      } else if (this.tradingBlock(position.coin)) {
+        // Halted or paused: hold what we have, rebalance nothing
+      } else if (this.quoteManager) {
+        // Maker mode: the resting bid does the buying; only exits are taken from the strategy
+        const exits = this.strategies.get(position.coin)!.onTick(context).filter(intent => intent.action === 'SELL');
+        if (exits.length > 0) {
+          await this.executeIntents(await this.cancelQuoteAndReload(latestPosition), exits, context);
+        } else {
+          await this.updateQuote(context);
+        }
+      } else {
+        await this.executeIntents(latestPosition, this.strategies.get(position.coin)!.onTick(context), context);
       }
 
       // Save market snapshot
@@ -500,57 +817,633 @@ export class TradingBot {
         downBestBid: downBook.bestBid,
         downBestAsk: downBook.bestAsk,
         spread: upBook.spread + downBook.spread,
-        timestamp: Date.now(),
+        realizedVolatility: fairValue?.volatility,
+        fairUp: fairValue?.up,
+        fairDown: fairValue?.down,
+        timestamp: this.clock.now(),
       });
 
+      // Intra-hour equity curve - marked after this tick's trades
+      const valuation = this.valuePosition(latestPosition);
+      if (valuation) {
+        await this.db.insertValuation(valuation);
+      }
+
+      return (latestPosition.upBalance || 0) <= 0 && (latestPosition.downBalance || 0) <= 0;
     } catch (err: any) {
       console.error(`🔥 Rebalancing error for ${position.coin}:`, err.message);
 
       // IMPORTANT: swallow error so bot continues running
+      return false;
+    }
+  }
+
+  /**
+   * Current view of a market for strategy hooks (null while price data or books are missing)
+   */
+  private buildStrategyContext(position: Position, session: MarketSession): StrategyContext | null {
+    const marketData = this.dataProvider.getMarketData(position.coin);
+    const upBook = this.polymarket.getOrderBook(position.assetIds.up);
+    const downBook = this.polymarket.getOrderBook(position.assetIds.down);
+    if (!marketData || !upBook || !downBook) return null;
+
+    return {
+      coin: position.coin,
+      marketSlug: session.market.slug,
+      marketEndTime: session.endTime,
+      minutesRemaining: Math.floor((session.endTime - this.clock.now()) / 60000),
+      position,
+      marketData,
+      upBook,
+      downBook,
+      fairValue: this.getFairValue(marketData, session.endTime),
+    };
+  }
+
+  /**
+   * Model UP/DOWN prices from the Binance price, hour open and realized volatility
+   */
+  private getFairValue(marketData: MarketData, marketEndTime: number): FairValue | null {
+    const volatility = this.dataProvider.getRealizedVolatility(
+      marketData.symbol,
+      this.config.pricing.volatilityWindowMinutes
+    );
+    if (volatility === null) return null;
+
+    return this.fairValueModel.price(
+      marketData.price,
+      marketData.hourOpen,
+      volatility,
+      marketEndTime,
+      this.clock.now()
+    );
+  }
+
+  /**
+   * Sell every held share - at the best bid, or with `sweep` at whatever bid
+   * level it takes to fill the whole balance (the lowest bid if the book is thin)
+   */
+  private exitIntents(position: Position, context: StrategyContext, reason: string, sweep: boolean = false): TradeIntent[] {
+    const intents: TradeIntent[] = [];
+    for (const [side, shares, book] of [
+      ['UP', position.upBalance || 0, context.upBook],
+      ['DOWN', position.downBalance || 0, context.downBook],
+    ] as const) {
+      if (shares <= 0 || book.bestBid <= 0) continue;
+
+      const price = sweep ? walkLevels(book.bids, shares).worstPrice : book.bestBid;
+      intents.push({ action: 'SELL', side, shares, price, reason });
+    }
+    return intents;
+  }
+
+  /**
+   * Pull the coin's resting bid and re-read the position: cancelling syncs the
+   * order, and any last fills it picks up are already applied to the DB
+   */
+  private async cancelQuoteAndReload(position: Position): Promise<Position> {
+    if (!this.quoteManager) return position;
+
+    await this.quoteManager.cancel(position.coin);
+    await this.quoteFills.get(position.coin);
+    return (await this.db.getPosition(position.id)) || position;
+  }
+
+  /**
+   * Why entries and rebalances are blocked for a coin right now (null when they aren't)
+   */
+  private tradingBlock(coin: string): string | null {
+    const halt = this.riskSupervisor.getHalt();
+    if (halt) return `Trading halted: ${halt.reason}`;
+    if (this.pausedAll || this.pausedCoins.has(coin)) return 'Paused by operator';
+    return null;
+  }
+
+  /**
+   * Run a buy past the PositionManager risk gate, logging and recording it when rejected
+   */
+  private async checkRisk(
+    check: RiskCheck,
+    coin: string,
+    shares: number,
+    price: number,
+    details: { side?: 'UP' | 'DOWN'; positionId?: string } = {},
+    record: boolean = true
+  ): Promise<RiskVerdict> {
+    const cost = shares * price;
+    let verdict = check === 'ENTRY'
+      ? await this.positionManager.checkEntry(cost)
+      : await this.positionManager.checkBuy(cost);
+
+    const block = this.tradingBlock(coin);
+    if (block) {
+      verdict = { ...verdict, allowed: false, reason: block };
+    }
+
+    if (!verdict.allowed && record) {
+      console.log(`\n🛡️ ${coin}: ${check} rejected by risk limits - ${verdict.reason}`);
+      await this.db.insertRiskRejection({
+        check,
+        coin,
+        positionId: details.positionId,
+        side: details.side,
+        shares,
+        price,
+        cost,
+        exposure: verdict.exposure,
+        openPositions: verdict.openPositions,
+        reason: verdict.reason!,
+        timestamp: this.clock.now(),
+      });
+    }
+
+    return verdict;
+  }
+
+  /**
+   * Run the trades a strategy asked for, one after another. Buys go through
+   * the risk gate first; sells only reduce exposure and always go ahead.
+   */
+  private async executeIntents(position: Position, intents: TradeIntent[], context: StrategyContext): Promise<void> {
+    for (const intent of intents) {
+      if (intent.shares <= 0 || intent.price <= 0) continue;
+
+      if (intent.action === 'BUY') {
+        const verdict = await this.checkRisk('BUY', position.coin, intent.shares, intent.price, {
+          side: intent.side,
+          positionId: position.id,
+        });
+        if (!verdict.allowed) continue;
+      }
+
+      console.log(`\n⚖️ REBALANCING ${position.coin}`);
+      console.log(`   Action: ${intent.action}_${intent.side}`);
+      console.log(`   Shares: ${intent.shares}`);
+      console.log(`   Target: $${intent.price.toFixed(4)}`);
+      console.log(`   Reason: ${intent.reason}`);
+      if (context.fairValue) {
+        const fair = intent.side === 'UP' ? context.fairValue.up : context.fairValue.down;
+        const edge = intent.action === 'SELL' ? intent.price - fair : fair - intent.price;
+        console.log(`   Fair value: ${fair.toFixed(4)} (edge ${edge.toFixed(4)})`);
+      }
+      console.log(`   Time remaining: ${context.minutesRemaining}m`);
+
+      await this.executeRebalanceTrade(position, intent, context.marketData.price);
+    }
+  }
+
+  /**
+   * Give strategies that implement onBookUpdate a look at each book change
+   */
+  private async handleBookUpdate(book: LocalOrderBook): Promise<void> {
+    if (!this.running) return;
+
+    const coin = this.polymarket.getCoinForAsset(book.assetId);
+    if (!coin) return;
+
+    const strategy = this.strategies.get(coin);
+    const session = this.activeSessions.get(coin);
+    if (!strategy?.onBookUpdate || !session?.active || !session.positionId) return;
+    if (this.ticksInProgress.has(coin) || this.tradingBlock(coin)) return;
+    if (this.feedMonitor.check(coin, JSON.parse(session.market.clobTokenIds))) return;
+
+    this.ticksInProgress.add(coin);
+    try {
+      const position = await this.db.getPosition(session.positionId);
+      if (!position || position.status !== 'OPEN') return;
+
+      const context = this.buildStrategyContext(position, session);
+      if (!context || !context.upBook.inSync || !context.downBook.inSync) return;
+
+      await this.executeIntents(position, strategy.onBookUpdate(context), context);
+    } finally {
+      this.ticksInProgress.delete(coin);
+    }
+  }
+
+  /**
+   * Re-price the coin's resting bid as its books move (throttled; the rebalancing tick also re-quotes)
+   */
+  private async handleQuoteRefresh(book: LocalOrderBook): Promise<void> {
+    if (!this.running || !this.quoteManager) return;
+
+    const coin = this.polymarket.getCoinForAsset(book.assetId);
+    if (!coin) return;
+
+    const session = this.activeSessions.get(coin);
+    if (!session?.active || !session.positionId || this.ticksInProgress.has(coin)) return;
+    if (this.tradingBlock(coin)) return;
+    if (this.feedMonitor.check(coin, JSON.parse(session.market.clobTokenIds))) return;
+
+    const now = this.clock.now();
+    if (now - (this.lastQuoteRefresh.get(coin) || 0) < this.config.quoting.refreshIntervalMs) return;
+    this.lastQuoteRefresh.set(coin, now);
+
+    const position = await this.db.getPosition(session.positionId);
+    if (!position || position.status !== 'OPEN') return;
+
+    const context = this.buildStrategyContext(position, session);
+    if (!context) return;
+
+    await this.updateQuote(context);
+  }
+
+  /**
+   * Re-quote the coin's bid, or pull it while the buy it would turn into is over the risk limits
+   */
+  private async updateQuote(context: StrategyContext): Promise<void> {
+    const { coin, position } = context;
+    const upBalance = position!.upBalance || 0;
+    const downBalance = position!.downBalance || 0;
+    const side = upBalance < downBalance ? 'UP' : 'DOWN';
+    const book = side === 'UP' ? context.upBook : context.downBook;
+    const shares = Math.min(Math.floor(Math.abs(upBalance - downBalance)), this.config.quoting.maxShares);
+
+    if (shares > 0 && book.bestAsk > 0) {
+      // The bid rests under the ask, so pricing it at the ask bounds its cost.
+      // This runs on every refresh - only the first rejection in a row is recorded.
+      const verdict = await this.checkRisk(
+        'QUOTE',
+        coin,
+        shares,
+        book.bestAsk,
+        { side, positionId: position!.id },
+        !this.riskBlockedQuotes.has(coin)
+      );
+      if (!verdict.allowed) {
+        this.riskBlockedQuotes.add(coin);
+        await this.quoteManager!.cancel(coin);
+        return;
+      }
+    }
+
+    this.riskBlockedQuotes.delete(coin);
+    await this.quoteManager!.update(context);
+  }
+
+  /**
+   * Add shares bought by a resting bid to the coin's position
+   */
+  private async applyQuoteFill(fill: QuoteFill): Promise<void> {
+    const session = this.activeSessions.get(fill.coin);
+    const position = session?.positionId ? await this.db.getPosition(session.positionId) : null;
+    if (!position) {
+      console.error(`🚨 ${fill.coin}: Quote fill of ${fill.shares} shares with no position to apply it to (order ${fill.orderId})`);
+      return;
+    }
+
+    const side = fill.tokenId === position.assetIds.up ? 'UP' : 'DOWN';
+    const cost = fill.shares * fill.price;
+
+    // Fills can land mid-tick (a cancel syncs them in) - add to whatever is stored now
+    const updated = await this.db.adjustPosition(position.id, {
+      upBalance: side === 'UP' ? fill.shares : 0,
+      downBalance: side === 'DOWN' ? fill.shares : 0,
+      costBasis: cost,
+    });
+    if (!updated) return;
+
+    const newUpBalance = updated.upBalance || 0;
+    const newDownBalance = updated.downBalance || 0;
+
+    await this.db.insertTrade({
+      positionId: position.id,
+      coin: position.coin,
+      side,
+      action: 'BUY',
+      tokenId: fill.tokenId,
+      shares: fill.shares,
+      price: fill.price,
+      cost,
+      currentPrice: this.dataProvider.getMarketData(position.coin)?.price || 0,
+      upBalance: newUpBalance,
+      downBalance: newDownBalance,
+      imbalance: Math.abs(newUpBalance - newDownBalance),
+      reason: 'Maker bid filled',
+      executed: true,
+      mode: this.executor.mode,
+      orderId: fill.orderId,
+    });
+
+    console.log(`🏷️ ${position.coin}: Bid filled ${fill.shares} ${side} @ $${fill.price.toFixed(4)} (UP ${newUpBalance} / DOWN ${newDownBalance})`);
+  }
+
+  /**
+   * Take a fill whose trade failed on-chain back out of its position. The
+   * reversal is recorded as a negative trade, so average buy prices net it out.
+   */
+  private async revertFill(order: TrackedOrder, shares: number, price: number): Promise<void> {
+    const position = await this.db.getPositionForAsset(order.tokenId);
+    if (!position) {
+      console.error(`🚨 Reverted fill of ${shares} shares on order ${order.id} with no position to apply it to`);
       return;
     }
+
+    const side = order.tokenId === position.assetIds.up ? 'UP' : 'DOWN';
+    const value = shares * price;
+
+    let costDelta = -value;
+    let realizedDelta = 0;
+    if (order.side === 'SELL') {
+      // The shares come back at their average cost, and the P&L booked on them goes
+      const costSold = shares * await this.db.getAverageBuyPrice(position.id, side);
+      costDelta = costSold;
+      realizedDelta = -(value - costSold);
+    }
+
+    const signed = order.side === 'BUY' ? -shares : shares;
+    const updated = await this.db.adjustPosition(position.id, {
+      upBalance: side === 'UP' ? signed : 0,
+      downBalance: side === 'DOWN' ? signed : 0,
+      costBasis: costDelta,
+      realizedPnl: realizedDelta,
+    });
+    if (!updated) return;
+
+    await this.db.insertTrade({
+      positionId: position.id,
+      coin: position.coin,
+      side,
+      action: order.side,
+      tokenId: order.tokenId,
+      shares: -shares,
+      price,
+      cost: -value,
+      currentPrice: this.dataProvider.getMarketData(position.coin)?.price || 0,
+      upBalance: updated.upBalance || 0,
+      downBalance: updated.downBalance || 0,
+      imbalance: Math.abs((updated.upBalance || 0) - (updated.downBalance || 0)),
+      reason: 'Fill reverted: trade failed on-chain',
+      executed: true,
+      mode: this.executor.mode,
+      orderId: order.id,
+    });
+
+    console.log(`↩️ ${position.coin}: Reverted ${order.side} of ${shares} ${side} @ $${price.toFixed(4)} (UP ${updated.upBalance} / DOWN ${updated.downBalance})`);
+  }
+
+  /**
+   * Look for a complete set priced under $1 whenever either of a market's books changes
+   */
+  private async handleArbitrageCheck(book: LocalOrderBook): Promise<void> {
+    if (!this.running || !this.arbitrage) return;
+
+    const coin = this.polymarket.getCoinForAsset(book.assetId);
+    if (!coin) return;
+
+    const session = this.activeSessions.get(coin);
+    if (!session?.active) return;
+
+    const now = this.clock.now();
+
+    const [upAssetId, downAssetId] = JSON.parse(session.market.clobTokenIds);
+    const upBook = this.polymarket.getOrderBook(upAssetId);
+    const downBook = this.polymarket.getOrderBook(downAssetId);
+    if (!upBook || !downBook || !upBook.inSync || !downBook.inSync) return;
+    if (this.feedMonitor.check(coin, [upAssetId, downAssetId])) return;
+
+    const opportunity = this.arbitrage.evaluate(coin, session.market.slug, upBook, downBook, now);
+    if (!opportunity) return;
+
+    // One record per market per cooldown; detections in between are counted and reported with the next one
+    if (now - (this.lastArbitrageRecord.get(coin) || 0) < this.config.arbitrage.cooldownMs) {
+      this.suppressedArbitrage.set(coin, (this.suppressedArbitrage.get(coin) || 0) + 1);
+      return;
+    }
+
+    this.lastArbitrageRecord.set(coin, now);
+    const suppressed = this.suppressedArbitrage.get(coin) || 0;
+    this.suppressedArbitrage.delete(coin);
+
+    console.log(`\n💎 ARBITRAGE ${coin}: UP ${opportunity.upAsk.toFixed(4)} + DOWN ${opportunity.downAsk.toFixed(4)}`);
+    console.log(`   Size: ${opportunity.shares} pairs for $${opportunity.cost.toFixed(2)} (edge $${opportunity.edge.toFixed(2)})`);
+    if (suppressed > 0) {
+      console.log(`   ${suppressed} more detection${suppressed === 1 ? '' : 's'} during the cooldown since the last record`);
+    }
+
+    let skipReason: string | null = null;
+    if (!this.config.arbitrage.execute) {
+      skipReason = 'Execution disabled';
+    } else if (this.tradingBlock(coin)) {
+      skipReason = this.tradingBlock(coin);
+    } else if (!session.positionId) {
+      skipReason = 'No open position';
+    } else if (this.ticksInProgress.has(coin)) {
+      skipReason = 'Another trade in progress';
+    }
+
+    const id = await this.db.insertArbitrageOpportunity(
+      opportunity,
+      skipReason ? 'SKIPPED' : 'DETECTED',
+      skipReason || undefined
+    );
+
+    if (skipReason) {
+      console.log(`   ⏭️ Not taken: ${skipReason}`);
+      return;
+    }
+
+    this.ticksInProgress.add(coin);
+    try {
+      const position = await this.db.getPosition(session.positionId!);
+      if (!position || position.status !== 'OPEN') {
+        await this.db.updateArbitrageOpportunity(id, { status: 'SKIPPED', reason: 'Position not open' });
+        return;
+      }
+
+      const verdict = await this.checkRisk(
+        'ARBITRAGE',
+        coin,
+        opportunity.shares,
+        opportunity.cost / opportunity.shares,
+        { positionId: position.id }
+      );
+      if (!verdict.allowed) {
+        await this.db.updateArbitrageOpportunity(id, { status: 'SKIPPED', reason: `Risk limit: ${verdict.reason}` });
+        return;
+      }
+
+      await this.executeArbitrage(position, opportunity, id);
+    } finally {
+      this.ticksInProgress.delete(coin);
+    }
   }
 
   /**
-   * Execute a rebalancing trade
+   * Buy both legs of a complete set at once and add whatever filled to the position.
+   * An uneven fill is left for the strategy to rebalance.
+   */
+  private async executeArbitrage(position: Position, opportunity: ArbitrageOpportunity, id: number): Promise<void> {
+    const [upResult, downResult] = await Promise.all([
+      this.executor.execute({
+        tokenId: position.assetIds.up,
+        side: 'BUY',
+        shares: opportunity.shares,
+        price: opportunity.upLimit,
+        coin: position.coin,
+      }),
+      this.executor.execute({
+        tokenId: position.assetIds.down,
+        side: 'BUY',
+        shares: opportunity.shares,
+        price: opportunity.downLimit,
+        coin: position.coin,
+      }),
+    ]);
+
+    const upFilled = upResult.success ? upResult.filledShares : 0;
+    const downFilled = downResult.success ? downResult.filledShares : 0;
+    const filledCost = upFilled * upResult.avgPrice + downFilled * downResult.avgPrice;
+
+    let newUpBalance = (position.upBalance || 0) + upFilled;
+    let newDownBalance = (position.downBalance || 0) + downFilled;
+
+    if (upFilled > 0 || downFilled > 0) {
+      const updated = await this.db.adjustPosition(position.id, {
+        upBalance: upFilled,
+        downBalance: downFilled,
+        costBasis: filledCost,
+      });
+      if (updated) {
+        newUpBalance = updated.upBalance || 0;
+        newDownBalance = updated.downBalance || 0;
+      }
+    }
+
+    const currentPrice = this.dataProvider.getMarketData(position.coin)?.price || 0;
+    const legs: Array<['UP' | 'DOWN', string, number, ExecutionResult]> = [
+      ['UP', position.assetIds.up, upFilled, upResult],
+      ['DOWN', position.assetIds.down, downFilled, downResult],
+    ];
+    for (const [side, tokenId, filled, result] of legs) {
+      await this.db.insertTrade({
+        positionId: position.id,
+        coin: position.coin,
+        side,
+        action: 'BUY',
+        tokenId,
+        shares: filled > 0 ? filled : opportunity.shares,
+        price: filled > 0 ? result.avgPrice : (side === 'UP' ? opportunity.upLimit : opportunity.downLimit),
+        cost: filled * result.avgPrice,
+        currentPrice,
+        upBalance: newUpBalance,
+        downBalance: newDownBalance,
+        imbalance: Math.abs(newUpBalance - newDownBalance),
+        reason: 'Complete-set arbitrage',
+        executed: filled > 0,
+        mode: this.executor.mode,
+        error: filled > 0 ? undefined : (result.error || 'No shares filled'),
+        orderId: result.orderId,
+      });
+    }
+
+    let status: 'EXECUTED' | 'PARTIAL' | 'FAILED' = 'EXECUTED';
+    if (upFilled === 0 && downFilled === 0) {
+      status = 'FAILED';
+    } else if (upFilled !== downFilled) {
+      status = 'PARTIAL';
+    }
+
+    await this.db.updateArbitrageOpportunity(id, {
+      status,
+      positionId: position.id,
+      upFilled,
+      downFilled,
+      filledCost,
+      reason: status === 'FAILED' ? (upResult.error || downResult.error || 'No shares filled') : undefined,
+    });
+
+    const icon = status === 'EXECUTED' ? '✅' : status === 'PARTIAL' ? '⚠️' : '❌';
+    console.log(`${icon} Arbitrage ${status.toLowerCase()}: UP ${upFilled} / DOWN ${downFilled} for $${filledCost.toFixed(2)}`);
+  }
+
+  /**
+   * Execute a rebalancing trade. Buys add shares and cost; sells remove shares
+   * at their average cost and book the difference as realized P&L.
    */
   private async executeRebalanceTrade(
     position: Position,
-    decision: any,
+    intent: TradeIntent,
     currentPrice: number
   ): Promise<void> {
     try {
-      const action = decision.action;
-      const shares = decision.shares!;
-      const price = decision.targetPrice!;
-
-      const side = action.includes('UP') ? 'UP' : 'DOWN';
+      const side = intent.side;
+      const action = intent.action;
       const tokenId = side === 'UP'
         ? position.assetIds.up
         : position.assetIds.down;
 
-      const cost = shares * price;
+      const held = side === 'UP' ? (position.upBalance || 0) : (position.downBalance || 0);
+      const requestedShares = action === 'SELL' ? Math.min(intent.shares, held) : intent.shares;
+      if (requestedShares <= 0) return;
 
-      const success = true;
+      const result = await this.executor.execute({
+        tokenId,
+        side: action,
+        shares: requestedShares,
+        price: intent.price,
+        coin: position.coin,
+      });
 
-      const newUpBalance =
-        (position.upBalance || 0) + (side === 'UP' ? shares : 0);
-      const newDownBalance =
-        (position.downBalance || 0) + (side === 'DOWN' ? shares : 0);
+      if (!result.success || result.filledShares === 0) {
+        await this.db.insertTrade({
+          positionId: position.id,
+          coin: position.coin,
+          side,
+          action,
+          tokenId,
+          shares: requestedShares,
+          price: intent.price,
+          cost: 0,
+          currentPrice,
+          upBalance: position.upBalance || 0,
+          downBalance: position.downBalance || 0,
+          imbalance: Math.abs((position.upBalance || 0) - (position.downBalance || 0)),
+          reason: intent.reason,
+          executed: false,
+          mode: this.executor.mode,
+          error: result.error || 'No shares filled',
+          orderId: result.orderId,
+        });
 
-      if (!success) return;
+        console.log(`⚠️ Rebalance not executed: ${result.error || 'no shares filled'}`);
+        return;
+      }
 
-      await this.db.updatePosition(position.id, {
-        upBalance: newUpBalance,
-        downBalance: newDownBalance,
-        costBasis: position.costBasis + cost,
+      const shares = result.filledShares;
+      const price = result.avgPrice;
+      const cost = shares * price;
+      const signed = action === 'SELL' ? -shares : shares;
+
+      let costDelta = cost;
+      let realizedDelta = 0;
+      if (action === 'SELL') {
+        const costSold = shares * await this.db.getAverageBuyPrice(position.id, side);
+        costDelta = -costSold;
+        realizedDelta = cost - costSold;
+      }
+
+      // Applied as a delta so a quote fill recorded while this order was out isn't overwritten
+      const updated = await this.db.adjustPosition(position.id, {
+        upBalance: side === 'UP' ? signed : 0,
+        downBalance: side === 'DOWN' ? signed : 0,
+        costBasis: costDelta,
+        realizedPnl: realizedDelta,
       });
+      if (!updated) {
+        throw new Error(`Position ${position.id} disappeared after ${action} of ${shares} ${side}`);
+      }
+
+      const newUpBalance = updated.upBalance || 0;
+      const newDownBalance = updated.downBalance || 0;
+      const newCostBasis = updated.costBasis;
+      const newRealizedPnl = updated.realizedPnl || 0;
 
       await this.db.insertTrade({
         positionId: position.id,
         coin: position.coin,
         side,
-        action: 'BUY',
+        action,
         tokenId,
         shares,
         price,
@@ -559,15 +1452,22 @@ export class TradingBot {
         upBalance: newUpBalance,
         downBalance: newDownBalance,
         imbalance: Math.abs(newUpBalance - newDownBalance),
-        reason: decision.reason,
-        executed: false,
+        reason: intent.reason,
+        executed: true,
+        mode: this.executor.mode,
+        orderId: result.orderId,
       });
 
       position.upBalance = newUpBalance;
       position.downBalance = newDownBalance;
-      position.costBasis += cost;
+      position.costBasis = newCostBasis;
+      position.realizedPnl = newRealizedPnl;
 
-      console.log(`✅ Rebalance executed`);
+      if (action === 'SELL') {
+        console.log(`✅ Sold ${shares} ${side} @ $${price.toFixed(4)} (realized P&L $${newRealizedPnl.toFixed(2)})`);
+      } else {
+        console.log(`✅ Rebalance executed`);
+      }
     } catch (err: any) {
       console.error(`❌ Rebalance trade failed:`, err.message);
       return;
@@ -578,42 +1478,285 @@ export class TradingBot {
    * Close position at market end
    */
   private async closePosition(position: Position, session: MarketSession): Promise<void> {
+    // Balances and cost basis move with every fill - settle on the persisted state
+    position = (await this.db.getPosition(position.id)) || position;
+
     const upBalance = position.upBalance || 0;
     const downBalance = position.downBalance || 0;
     const balancedShares = Math.min(upBalance, downBalance);
 
-    // Calculate final P&L
-    const totalPayout = balancedShares * 1.0; // $1 per matched pair
-    const pnl = totalPayout - position.costBasis;
+    // Nothing left to settle once everything was sold early
+    const resolution = upBalance > 0 || downBalance > 0
+      ? await this.resolver.resolve(position)
+      : null;
+
+    // Without a resolution only the matched pairs are certain to pay out
+    const { payout, pnl } = resolution
+      ? this.resolver.settle(position, resolution.outcome)
+      : { payout: balancedShares * 1.0, pnl: balancedShares * 1.0 - position.costBasis + (position.realizedPnl || 0) };
 
     console.log(`\n💰 CLOSING ${position.coin}`);
     console.log(`   UP Balance: ${upBalance}`);
     console.log(`   DOWN Balance: ${downBalance}`);
     console.log(`   Balanced Shares: ${balancedShares}`);
+    if (resolution) {
+      const candle = resolution.openPrice !== undefined
+        ? ` (open ${resolution.openPrice} → close ${resolution.closePrice})`
+        : '';
+      console.log(`   Outcome: ${resolution.outcome} via ${resolution.source}${candle}`);
+    } else if (upBalance > 0 || downBalance > 0) {
+      console.log(`   Outcome: unknown - settling matched pairs only`);
+    } else {
+      console.log(`   Outcome: not needed - sold before expiry`);
+    }
     console.log(`   Cost Basis: $${position.costBasis.toFixed(2)}`);
-    console.log(`   Payout: $${totalPayout.toFixed(2)}`);
+    if (position.realizedPnl) {
+      console.log(`   Realized before expiry: $${position.realizedPnl.toFixed(2)}`);
+    }
+    console.log(`   Payout: $${payout.toFixed(2)}`);
     console.log(`   P&L: $${pnl.toFixed(2)}`);
 
     await this.db.updatePosition(position.id, {
       status: 'CLOSED',
-      exitTime: Date.now(),
+      exitTime: this.clock.now(),
       pnl,
+      payout,
+      outcome: resolution?.outcome,
     });
 
     await this.db.updateSessionStats();
 
+    // A losing close can be the one that trips a limit - don't wait for the next check
+    await this.riskSupervisor.evaluate().catch(err => console.error('❌ Risk supervision failed:', err.message));
+
     session.active = false;
 
     // Unsubscribe from this market's assets
     this.polymarket.unsubscribeFromMarket(position.coin);
   }
 
+  /**
+   * Stop entries and rebalancing for one coin, or for every coin. Stop losses
+   * still fire and open positions still settle at expiry. Pauses live in
+   * memory only - a restart comes back unpaused.
+   */
+  async pause(coin?: string): Promise<{ all: boolean; coins: string[] }> {
+    if (coin) {
+      this.requireCoin(coin);
+      this.pausedCoins.add(coin);
+      await this.quoteManager?.cancel(coin);
+    } else {
+      this.pausedAll = true;
+      await this.quoteManager?.cancelAll();
+    }
+
+    console.log(`\n⏸️ Trading paused for ${coin || 'all coins'}`);
+    return this.getPauseState();
+  }
+
+  /**
+   * Lift a pause. Resuming everything also clears per-coin pauses; resuming
+   * one coin leaves a global pause in force.
+   */
+  async resume(coin?: string): Promise<{ all: boolean; coins: string[] }> {
+    if (coin) {
+      this.requireCoin(coin);
+      this.pausedCoins.delete(coin);
+    } else {
+      this.pausedAll = false;
+      this.pausedCoins.clear();
+    }
+
+    console.log(`\n▶️ Trading resumed for ${coin || 'all coins'}`);
+    return this.getPauseState();
+  }
+
+  getPauseState(): { all: boolean; coins: string[] } {
+    return { all: this.pausedAll, coins: Array.from(this.pausedCoins) };
+  }
+
+  /**
+   * Sell everything a position holds now, sweeping the bids as deep as it
+   * takes. Closes the position once nothing is left; a partial fill leaves it
+   * open (pause the coin first to stop the strategy buying back in).
+   */
+  async flattenPosition(positionId: string) {
+    const position = await this.db.getPosition(positionId);
+    if (!position) {
+      throw new Error(`Position not found: ${positionId}`);
+    }
+    if (position.status === 'CLOSED') {
+      throw new Error(`Position ${positionId} is already closed`);
+    }
+
+    const session = this.activeSessions.get(position.coin);
+    if (!session?.active || session.positionId !== position.id) {
+      throw new Error(`Position ${positionId} is not being managed by this bot`);
+    }
+    if (this.ticksInProgress.has(position.coin)) {
+      throw new Error(`${position.coin} is mid-trade, try again`);
+    }
+
+    const stale = this.feedMonitor.check(position.coin, [position.assetIds.up, position.assetIds.down]);
+    if (stale) {
+      throw new Error(`Not selling into stale data: ${stale}`);
+    }
+
+    const context = this.buildStrategyContext(position, session);
+    if (!context) {
+      throw new Error(`No market data or order books for ${position.coin}`);
+    }
+
+    this.ticksInProgress.add(position.coin);
+    try {
+      console.log(`\n🧯 ${position.coin}: Flattening position ${position.id}`);
+      // Sell what is held once the bid's last fills have landed, not what was held before
+      const holding = await this.cancelQuoteAndReload(position);
+      await this.executeIntents(holding, this.exitIntents(holding, context, 'Operator flatten', true), context);
+
+      const latest = (await this.db.getPosition(position.id)) || position;
+      const remaining = { up: latest.upBalance || 0, down: latest.downBalance || 0 };
+      const closed = remaining.up <= 0 && remaining.down <= 0;
+
+      if (closed) {
+        this.clock.clearInterval(this.rebalanceTimers.get(position.coin));
+        this.rebalanceTimers.delete(position.coin);
+        await this.closePosition(latest, session);
+      } else {
+        console.log(`⚠️ ${position.coin}: Flatten left ${remaining.up} UP / ${remaining.down} DOWN unsold`);
+      }
+
+      return {
+        positionId: position.id,
+        sold: {
+          up: (holding.upBalance || 0) - remaining.up,
+          down: (holding.downBalance || 0) - remaining.down,
+        },
+        remaining,
+        closed,
+      };
+    } finally {
+      this.ticksInProgress.delete(position.coin);
+    }
+  }
+
+  /**
+   * Toggle CoinConfig.enabled. Takes effect at the next market refresh;
+   * a position already open for the coin is still managed to expiry.
+   */
+  async setCoinEnabled(symbol: string, enabled: boolean): Promise<{ coin: string; enabled: boolean }> {
+    const coin = this.requireCoin(symbol);
+
+    if (enabled && !coin.enabled) {
+      // Coins disabled at start never got a Binance stream
+      await this.dataProvider.addCoin(coin);
+    }
+    coin.enabled = enabled;
+
+    console.log(`\n${enabled ? '✅' : '🚫'} ${coin.symbol} ${enabled ? 'enabled' : 'disabled'}`);
+    return { coin: coin.symbol, enabled };
+  }
+
+  /**
+   * Run a market refresh now instead of waiting for the scheduled one. The
+   * current hour picks up newly enabled coins and markets that were skipped;
+   * `next` moves on to the next hour exactly like the scheduled refresh,
+   * dropping the current hour's books. Runs in the background.
+   */
+  refreshMarkets(next: boolean = false): { started: boolean; hour: 'current' | 'next' } {
+    if (!this.running) {
+      throw new Error('Bot is not running');
+    }
+    if (this.refreshing) {
+      throw new Error('A market refresh is already running');
+    }
+
+    console.log(`\n🔄 Market refresh requested - fetching ${next ? 'next' : 'current'} hour markets...`);
+    this.refreshing = true;
+    this.initializeMarketsAndTrading(!next)
+      .catch(err => console.error('❌ Market refresh failed:', err.message))
+      .finally(() => { this.refreshing = false; });
+
+    return { started: true, hour: next ? 'next' : 'current' };
+  }
+
+  /**
+   * Lift a risk halt (the RISK_RESUME=true equivalent without a restart)
+   */
+  async resumeRisk(): Promise<{ halted: boolean }> {
+    if (!this.riskSupervisor.isHalted()) {
+      throw new Error('Trading is not halted');
+    }
+
+    await this.riskSupervisor.resume();
+    return { halted: false };
+  }
+
+  private requireCoin(symbol: string): CoinConfig {
+    const coin = this.config.coins.find(c => c.symbol === symbol);
+    if (!coin) {
+      throw new Error(`Unknown coin: ${symbol}`);
+    }
+    return coin;
+  }
+
+  /**
+   * Replayer that feeds a recording into this bot's data providers
+   */
+  createReplayer(): FeedReplayer {
+    if (!this.config.feeds.replayFile || !(this.clock instanceof VirtualClock)) {
+      throw new Error('Replay needs config.feeds.replayFile and a VirtualClock');
+    }
+    return new FeedReplayer(this.clock, this.dataProvider, this.polymarket);
+  }
+
   private sleep(ms: number): Promise<void> {
-    return new Promise(resolve => setTimeout(resolve, ms));
+    return new Promise(resolve => this.clock.setTimeout(resolve, ms));
+  }
+
+  /**
+   * Every market session the bot has opened since the last refresh
+   */
+  getActiveSessions(): MarketSession[] {
+    return Array.from(this.activeSessions.values());
+  }
+
+  getDatabase(): DatabaseClient {
+    return this.db;
+  }
+
+  getStatus() {
+    return {
+      running: this.running,
+      mode: this.executor.mode,
+      activeSessions: this.getActiveSessions().filter(session => session.active).length,
+      halt: this.riskSupervisor.getHalt(),
+      paused: this.getPauseState(),
+      risk: this.riskSupervisor.getSnapshot(),
+      staleFeeds: this.getActiveSessions()
+        .map(session => session.coin)
+        .filter(coin => this.feedMonitor.isStale(coin)),
+    };
   }
 
   async getStats() {
-    return await this.db.getStats();
+    const stats = await this.db.getStats();
+
+    // Realized totals alone miss what the open positions are worth right now
+    const valuations = (await this.db.getOpenPositions())
+      .map(position => this.valuePosition(position))
+      .filter((valuation): valuation is PositionValuation => valuation !== null);
+    const sum = (pick: (valuation: PositionValuation) => number) =>
+      valuations.reduce((total, valuation) => total + pick(valuation), 0);
+
+    return {
+      ...stats,
+      liquidation_value: sum(v => v.liquidationValue),
+      mid_value: sum(v => v.midValue),
+      unrealized_pnl: sum(v => v.unrealizedPnl),
+      unrealized_pnl_mid: sum(v => v.unrealizedPnlMid),
+      guaranteed_payout: sum(v => v.guaranteedPayout),
+    };
   }
 
   async stop(): Promise<void> {
@@ -623,11 +1766,20 @@ export class TradingBot {
 
     // Clear all rebalance timers
     for (const timer of this.rebalanceTimers.values()) {
-      clearInterval(timer);
+      this.clock.clearInterval(timer);
     }
-
+    this.clock.clearInterval(this.reconcileTimer);
+    this.clock.clearInterval(this.riskTimer);
+    this.clock.clearTimeout(this.refreshTimer);
+    this.feedMonitor.stop();
+
+    await this.quoteManager?.cancelAll();
+    this.orderManager.stop();
+    this.settlementWorker?.stop();
+    this.userChannel?.disconnect();
     await this.dataProvider.stop();
     this.polymarket.stop();
+    this.recorder?.close();
 
     const stats = await this.getStats();
     console.log('\n📊 Final Stats:', stats);
@@ -0,0 +1,99 @@
+// ============================================================================
+// FEED HEALTH MONITOR (src/data/FeedHealthMonitor.ts)
+// ============================================================================
+
+import { EventEmitter } from 'events';
+import { BotConfig } from "../config";
+import { BinanceWebSocketDataProvider } from "./WebSocketDataProvider";
+import { PolymarketClient } from "../polymarket/PolymarketClient";
+import { FeedAlert } from "../types";
+import { Clock, TimerHandle, systemClock } from "../utils/clock";
+
+export interface FeedWatch {
+  coin: string;
+  assetIds: string[];
+}
+
+/**
+ * Decides whether a coin's Binance price and Polymarket books are fresh
+ * enough to trade on.
+ *
+ * `check` is the per-decision guard. While started, every watched coin is
+ * also polled and a `stale` alert is emitted when it goes stale, followed by
+ * `recovered` once both feeds are current again.
+ */
+export class FeedHealthMonitor extends EventEmitter {
+  private binance: BinanceWebSocketDataProvider;
+  private polymarket: PolymarketClient;
+  private config: BotConfig['staleData'];
+  private clock: Clock;
+
+  private timer: TimerHandle | null = null;
+  private staleCoins: Set<string> = new Set();
+
+  constructor(
+    binance: BinanceWebSocketDataProvider,
+    polymarket: PolymarketClient,
+    config: BotConfig['staleData'],
+    clock: Clock = systemClock
+  ) {
+    super();
+    this.binance = binance;
+    this.polymarket = polymarket;
+    this.config = config;
+    this.clock = clock;
+  }
+
+  /**
+   * Why the coin's data is too old to trade on, or null if it's fresh
+   */
+  check(coin: string, assetIds: string[]): string | null {
+    const priceAge = this.binance.getDataAge(coin);
+    if (priceAge > this.config.maxPriceAgeMs) {
+      return this.describe(`Binance ${coin} price`, priceAge);
+    }
+
+    for (const assetId of assetIds) {
+      const bookAge = this.polymarket.getBookAge(assetId);
+      if (bookAge > this.config.maxBookAgeMs) {
+        return this.describe(`Polymarket book ${assetId.slice(0, 8)}...`, bookAge);
+      }
+    }
+
+    return null;
+  }
+
+  isStale(coin: string): boolean {
+    return this.staleCoins.has(coin);
+  }
+
+  start(watched: () => FeedWatch[]): void {
+    this.stop();
+
+    this.timer = this.clock.setInterval(() => {
+      for (const { coin, assetIds } of watched()) {
+        const reason = this.check(coin, assetIds);
+
+        if (reason && !this.staleCoins.has(coin)) {
+          this.staleCoins.add(coin);
+          const alert: FeedAlert = { coin, reason, timestamp: this.clock.now() };
+          this.emit('stale', alert);
+        } else if (!reason && this.staleCoins.delete(coin)) {
+          this.emit('recovered', coin);
+        }
+      }
+    }, this.config.checkIntervalMs);
+  }
+
+  stop(): void {
+    if (this.timer) {
+      this.clock.clearInterval(this.timer);
+      this.timer = null;
+    }
+    this.staleCoins.clear();
+  }
+
+  private describe(feed: string, age: number): string {
+    return age === Infinity ? `${feed} never received` : `${feed} is ${Math.round(age / 1000)}s old`;
+  }
+}
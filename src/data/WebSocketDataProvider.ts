@@ -4,8 +4,11 @@
 
 import * as ccxt from 'ccxt';
 import WebSocket from 'ws';
+import { EventEmitter } from 'events';
 import { MarketData, OHLCV } from '../types';
 import { BotConfig, CoinConfig } from '../config';
+import { Clock, systemClock } from '../utils/clock';
+import { backoffDelay } from '../utils/helpers';
 
 interface PriceHistory {
   prices: number[];
@@ -38,23 +41,27 @@ interface BinanceKline {
   };
 }
 
-export class BinanceWebSocketDataProvider {
+export class BinanceWebSocketDataProvider extends EventEmitter {
   private exchange: ccxt.Exchange;
+  private clock: Clock;
+  private replay: boolean;
   private ws: WebSocket | null = null;
   private priceHistory: Map<string, PriceHistory> = new Map();
   private marketDataCache: Map<string, MarketData> = new Map();
+  private lastUpdate: Map<string, number> = new Map(); // symbol -> receive time of its last kline
   private running: boolean = false;
   private config: BotConfig;
   private coins: CoinConfig[] = [];
   private reconnectAttempts: number = 0;
-  private maxReconnectAttempts: number = 10;
-  private reconnectDelay: number = 5000;
   private pingInterval: NodeJS.Timeout | null = null;
   private subscriptionId: number = 1;
   private subscribed: boolean = false; // guard so we don't re-subscribe repeatedly
 
-  constructor(config: BotConfig) {
+  constructor(config: BotConfig, clock: Clock = systemClock) {
+    super();
     this.config = config;
+    this.clock = clock;
+    this.replay = !!config.feeds.replayFile;
 
     const ExchangeClass = ccxt[config.ccxt.exchange as keyof typeof ccxt] as any;
     this.exchange = new ExchangeClass({
@@ -78,6 +85,12 @@ export class BinanceWebSocketDataProvider {
       });
     }
 
+    // Replayed klines arrive through ingest() - no history fetch, no socket
+    if (this.replay) {
+      console.log('✅ Binance data provider started in replay mode');
+      return;
+    }
+
     // Fetch initial historical data using CCXT
     await this.fetchInitialData();
 
@@ -91,6 +104,8 @@ export class BinanceWebSocketDataProvider {
    * Wait for WebSocket connection to be established
    */
   async waitForConnection(timeoutMs: number = 30000): Promise<boolean> {
+    if (this.replay) return true;
+
     const startTime = Date.now();
 
     while (Date.now() - startTime < timeoutMs) {
@@ -108,10 +123,35 @@ export class BinanceWebSocketDataProvider {
   }
 
 
-  private async fetchInitialData(): Promise<void> {
+  /**
+   * Start streaming a coin that wasn't enabled at start (no-op if it already streams)
+   */
+  async addCoin(coin: CoinConfig): Promise<void> {
+    if (this.coins.some(c => c.symbol === coin.symbol)) return;
+
+    this.coins.push(coin);
+    this.priceHistory.set(coin.symbol, {
+      prices: [],
+      timestamps: [],
+      maxLength: 3600,
+    });
+
+    if (this.replay) return;
+
+    await this.fetchInitialData([coin]);
+
+    // SUBSCRIBE adds to the connection's streams; after a reconnect every coin is subscribed anyway
+    if (this.ws?.readyState === WebSocket.OPEN) {
+      const streams = this.buildStreamNames([coin]);
+      console.log(`📡 Subscribing to ${coin.symbol} Binance stream:`, streams);
+      this.ws.send(JSON.stringify({ method: 'SUBSCRIBE', params: streams, id: this.subscriptionId++ }));
+    }
+  }
+
+  private async fetchInitialData(coins: CoinConfig[] = this.coins): Promise<void> {
     console.log('📥 Fetching initial market data...');
 
-    for (const coin of this.coins) {
+    for (const coin of coins) {
       try {
         // Fetch last 15 minutes of 1m candles
         const ohlcv = await this.exchange.fetchOHLCV(coin.ccxtSymbol, '1m', undefined, 15);
@@ -182,10 +222,10 @@ export class BinanceWebSocketDataProvider {
     }
   }
 
-  private buildStreamNames(): string[] {
+  private buildStreamNames(coins: CoinConfig[] = this.coins): string[] {
     // Convert CCXT symbols like "BTC/USDT" -> "btcusdt@kline_1m"
     const streams: string[] = [];
-    for (const coin of this.coins) {
+    for (const coin of coins) {
       try {
         const raw = coin.ccxtSymbol;
         if (!raw) continue;
@@ -249,6 +289,7 @@ export class BinanceWebSocketDataProvider {
     try {
       // convert to string safely
       const text = (typeof data === 'string') ? data : data.toString();
+      this.emit('raw', text);
 
       // Skip plain ping/pong textual messages if any (rare)
       if (text === 'ping' || text === 'pong') {
@@ -304,6 +345,8 @@ export class BinanceWebSocketDataProvider {
     const closePrice = parseFloat(kline.k.c);
     const timestamp = kline.k.T; // Kline close time
 
+    this.lastUpdate.set(coin.symbol, this.clock.now());
+
     // Update price history
     this.updatePriceHistory(coin.symbol, closePrice, timestamp);
 
@@ -320,7 +363,7 @@ export class BinanceWebSocketDataProvider {
     history.timestamps.push(timestamp);
 
     // Keep only recent data (1 hour)
-    const cutoff = Date.now() - 3600000;
+    const cutoff = this.clock.now() - 3600000;
     while (history.timestamps.length > 0 && history.timestamps[0] < cutoff) {
       history.prices.shift();
       history.timestamps.shift();
@@ -337,7 +380,7 @@ export class BinanceWebSocketDataProvider {
     const history = this.priceHistory.get(symbol);
     if (!history || history.prices.length === 0) return;
 
-    const now = Date.now();
+    const now = this.clock.now();
     const currentPrice = history.prices[history.prices.length - 1];
 
     // Calculate price changes
@@ -436,21 +479,17 @@ export class BinanceWebSocketDataProvider {
 
     if (!this.running) return;
 
-    // Attempt reconnection
-    if (this.reconnectAttempts < this.maxReconnectAttempts) {
-      this.reconnectAttempts++;
-      const delay = Math.round(this.reconnectDelay * Math.pow(1.5, this.reconnectAttempts - 1));
+    // Keep retrying until stopped - prices go stale until we're back
+    this.reconnectAttempts++;
+    const delay = backoffDelay(this.reconnectAttempts, this.config.reconnect.baseDelayMs, this.config.reconnect.maxDelayMs);
 
-      console.log(`🔄 Attempting to reconnect (${this.reconnectAttempts}/${this.maxReconnectAttempts}) in ${delay}ms...`);
+    console.log(`🔄 Attempting to reconnect (attempt ${this.reconnectAttempts}) in ${delay}ms...`);
 
-      setTimeout(() => {
-        if (this.running) {
-          this.connectWebSocket();
-        }
-      }, delay);
-    } else {
-      console.error('❌ Max reconnection attempts reached');
-    }
+    setTimeout(() => {
+      if (this.running) {
+        this.connectWebSocket();
+      }
+    }, delay);
   }
 
   private cleanup(): void {
@@ -473,6 +512,41 @@ export class BinanceWebSocketDataProvider {
     }
   }
 
+  /**
+   * Fetch the completed 1h candle starting at `hourStart` (null if unavailable or still open)
+   */
+  async fetchHourCandle(symbol: string, hourStart: number): Promise<OHLCV | null> {
+    const coin = this.coins.find(c => c.symbol === symbol);
+    if (!coin) return null;
+
+    if (this.clock.now() < hourStart + 3600000) return null;
+
+    try {
+      const ohlcv = await this.exchange.fetchOHLCV(coin.ccxtSymbol, '1h', hourStart, 1);
+      const candle = ohlcv?.[0];
+      if (!candle || candle[0] !== hourStart) return null;
+
+      return {
+        timestamp: candle[0],
+        open: candle[1],
+        high: candle[2],
+        low: candle[3],
+        close: candle[4],
+        volume: candle[5],
+      };
+    } catch (error) {
+      console.error(`❌ Error fetching hour candle for ${symbol}:`, error);
+      return null;
+    }
+  }
+
+  /**
+   * Feed a raw websocket payload (e.g. from a recording) through the normal message path
+   */
+  ingest(data: string): void {
+    this.handleMessage(data);
+  }
+
   getMarketData(symbol: string): MarketData | null {
     return this.marketDataCache.get(symbol) || null;
   }
@@ -481,7 +555,7 @@ export class BinanceWebSocketDataProvider {
     const history = this.priceHistory.get(symbol);
     if (!history) return [];
 
-    const now = Date.now();
+    const now = this.clock.now();
     const cutoff = now - (minutes * 60000);
 
     const recentPrices: number[] = [];
@@ -494,6 +568,50 @@ export class BinanceWebSocketDataProvider {
     return recentPrices;
   }
 
+  /**
+   * Standard deviation of 1-minute log returns over the last `minutes`, as a
+   * fraction (0.001 = 0.1% per minute). Null until there are `minReturns` returns.
+   *
+   * Live klines are stamped with their close time and seeded candles with their
+   * open time; both land in the same minute bucket, and the last price seen in
+   * a bucket is that minute's close.
+   */
+  getRealizedVolatility(symbol: string, minutes: number = 60, minReturns: number = 10): number | null {
+    const history = this.priceHistory.get(symbol);
+    if (!history) return null;
+
+    const cutoff = this.clock.now() - (minutes * 60000);
+    const closes = new Map<number, number>();
+    for (let i = 0; i < history.timestamps.length; i++) {
+      if (history.timestamps[i] >= cutoff) {
+        closes.set(Math.floor(history.timestamps[i] / 60000), history.prices[i]);
+      }
+    }
+
+    const buckets = [...closes.keys()].sort((a, b) => a - b);
+    const returns: number[] = [];
+    for (let i = 1; i < buckets.length; i++) {
+      // Skip gaps so a missed minute doesn't count as a one-minute move
+      if (buckets[i] - buckets[i - 1] !== 1) continue;
+      returns.push(Math.log(closes.get(buckets[i])! / closes.get(buckets[i - 1])!));
+    }
+
+    if (returns.length < minReturns) return null;
+
+    const mean = returns.reduce((sum, r) => sum + r, 0) / returns.length;
+    const variance = returns.reduce((sum, r) => sum + Math.pow(r - mean, 2), 0) / (returns.length - 1);
+
+    return Math.sqrt(variance);
+  }
+
+  /**
+   * Milliseconds since the last kline for a symbol arrived (Infinity if none yet)
+   */
+  getDataAge(symbol: string): number {
+    const last = this.lastUpdate.get(symbol);
+    return last !== undefined ? this.clock.now() - last : Infinity;
+  }
+
   isConnected(): boolean {
     return this.ws?.readyState === WebSocket.OPEN;
   }
@@ -1,7 +1,7 @@
 // src/database/client.ts
 import { EventEmitter } from 'events';
 import { Pool, PoolClient, QueryResult } from 'pg';
-import { Position } from '../types';
+import { ArbitrageOpportunity, ArbitrageStatus, ListFilter, MarketSnapshot, OperatorAction, OrderStatus, Page, Position, PositionValuation, RiskHalt, RiskRejection, TapeTrade, TrackedOrder } from '../types';
 
 type PendingOp = {
   id: string;
@@ -77,8 +77,8 @@ export class DatabaseClient extends EventEmitter {
       market_slug VARCHAR(255) NOT NULL,
       side VARCHAR(10) NOT NULL,
       entry_price DECIMAL(10, 6) NOT NULL,
-      shares INTEGER NOT NULL,
-      cost_basis DECIMAL(12, 2) NOT NULL,
+      shares DECIMAL(18, 6) NOT NULL,
+      cost_basis DECIMAL(18, 6) NOT NULL,
       entry_time BIGINT NOT NULL,
       hour_open_price DECIMAL(12, 2) NOT NULL,
       market_end_time BIGINT NOT NULL,
@@ -95,6 +95,30 @@ export class DatabaseClient extends EventEmitter {
       updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
       );
 
+      ALTER TABLE positions ADD COLUMN IF NOT EXISTS up_balance DECIMAL(18, 6) DEFAULT 0;
+      ALTER TABLE positions ADD COLUMN IF NOT EXISTS down_balance DECIMAL(18, 6) DEFAULT 0;
+      ALTER TABLE positions ADD COLUMN IF NOT EXISTS outcome VARCHAR(10);
+      ALTER TABLE positions ADD COLUMN IF NOT EXISTS payout DECIMAL(12, 2);
+      ALTER TABLE positions ADD COLUMN IF NOT EXISTS condition_id VARCHAR(255);
+      ALTER TABLE positions ADD COLUMN IF NOT EXISTS signal_reasons TEXT[];
+      ALTER TABLE positions ADD COLUMN IF NOT EXISTS realized_pnl DECIMAL(18, 6) DEFAULT 0;
+
+      CREATE TABLE IF NOT EXISTS orders (
+      id VARCHAR(255) PRIMARY KEY,
+      coin VARCHAR(10),
+      token_id VARCHAR(255) NOT NULL,
+      side VARCHAR(10) NOT NULL,
+      price DECIMAL(10, 6) NOT NULL,
+      size DECIMAL(18, 6) NOT NULL,
+      filled_size DECIMAL(18, 6) DEFAULT 0,
+      avg_fill_price DECIMAL(10, 6),
+      status VARCHAR(20) NOT NULL,
+      mode VARCHAR(10) NOT NULL,
+      error TEXT,
+      created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+      updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+      );
+
       CREATE TABLE IF NOT EXISTS trades (
       id SERIAL PRIMARY KEY,
       position_id VARCHAR(255) REFERENCES positions(id),
@@ -102,19 +126,42 @@ export class DatabaseClient extends EventEmitter {
       side VARCHAR(10) NOT NULL,
       action VARCHAR(10) NOT NULL,
       token_id VARCHAR(255) NOT NULL,
-      shares INTEGER NOT NULL,
+      shares DECIMAL(18, 6) NOT NULL,
       price DECIMAL(10, 6) NOT NULL,
-      cost DECIMAL(12, 2) NOT NULL,
+      cost DECIMAL(18, 6) NOT NULL,
       current_price DECIMAL(12, 2) NOT NULL,
-      up_balance INTEGER DEFAULT 0,
-      down_balance INTEGER DEFAULT 0,
-      imbalance INTEGER DEFAULT 0,
+      up_balance DECIMAL(18, 6) DEFAULT 0,
+      down_balance DECIMAL(18, 6) DEFAULT 0,
+      imbalance DECIMAL(18, 6) DEFAULT 0,
       reason TEXT,
       executed BOOLEAN DEFAULT FALSE,
       error TEXT,
       created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
       );
 
+      ALTER TABLE orders ADD COLUMN IF NOT EXISTS resting BOOLEAN DEFAULT FALSE;
+      ALTER TABLE trades ADD COLUMN IF NOT EXISTS order_id VARCHAR(255) REFERENCES orders(id);
+      ALTER TABLE trades ADD COLUMN IF NOT EXISTS confidence INTEGER;
+      ALTER TABLE trades ADD COLUMN IF NOT EXISTS signal_reasons TEXT[];
+      -- 'paper' for simulated fills, 'live' for CLOB fills (NULL on rows written before it was recorded)
+      ALTER TABLE trades ADD COLUMN IF NOT EXISTS mode VARCHAR(10);
+
+      -- Live fills can be fractional; older databases stored share counts as INTEGER
+      ALTER TABLE positions ALTER COLUMN shares TYPE DECIMAL(18, 6);
+      ALTER TABLE positions ALTER COLUMN up_balance TYPE DECIMAL(18, 6);
+      ALTER TABLE positions ALTER COLUMN down_balance TYPE DECIMAL(18, 6);
+      ALTER TABLE orders ALTER COLUMN size TYPE DECIMAL(18, 6);
+      ALTER TABLE orders ALTER COLUMN filled_size TYPE DECIMAL(18, 6);
+      ALTER TABLE trades ALTER COLUMN shares TYPE DECIMAL(18, 6);
+      ALTER TABLE trades ALTER COLUMN up_balance TYPE DECIMAL(18, 6);
+      ALTER TABLE trades ALTER COLUMN down_balance TYPE DECIMAL(18, 6);
+      ALTER TABLE trades ALTER COLUMN imbalance TYPE DECIMAL(18, 6);
+
+      -- Costs move with every fill, so cents would drift the average entry price
+      ALTER TABLE positions ALTER COLUMN cost_basis TYPE DECIMAL(18, 6);
+      ALTER TABLE positions ALTER COLUMN realized_pnl TYPE DECIMAL(18, 6);
+      ALTER TABLE trades ALTER COLUMN cost TYPE DECIMAL(18, 6);
+
       CREATE TABLE IF NOT EXISTS market_snapshots (
       id SERIAL PRIMARY KEY,
       coin VARCHAR(10) NOT NULL,
@@ -133,6 +180,32 @@ export class DatabaseClient extends EventEmitter {
       created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
       );
 
+      ALTER TABLE market_snapshots ADD COLUMN IF NOT EXISTS realized_volatility DECIMAL(12, 8);
+      ALTER TABLE market_snapshots ADD COLUMN IF NOT EXISTS fair_up DECIMAL(10, 6);
+      ALTER TABLE market_snapshots ADD COLUMN IF NOT EXISTS fair_down DECIMAL(10, 6);
+
+      CREATE TABLE IF NOT EXISTS position_valuations (
+      id SERIAL PRIMARY KEY,
+      position_id VARCHAR(255) REFERENCES positions(id),
+      coin VARCHAR(10) NOT NULL,
+      market_slug VARCHAR(255) NOT NULL,
+      up_balance DECIMAL(18, 6) NOT NULL,
+      down_balance DECIMAL(18, 6) NOT NULL,
+      up_bid DECIMAL(10, 6),
+      down_bid DECIMAL(10, 6),
+      up_mid DECIMAL(10, 6),
+      down_mid DECIMAL(10, 6),
+      liquidation_value DECIMAL(12, 4) NOT NULL,
+      mid_value DECIMAL(12, 4) NOT NULL,
+      cost_basis DECIMAL(12, 4) NOT NULL,
+      realized_pnl DECIMAL(12, 4) NOT NULL,
+      unrealized_pnl DECIMAL(12, 4) NOT NULL,
+      unrealized_pnl_mid DECIMAL(12, 4) NOT NULL,
+      guaranteed_payout DECIMAL(12, 4) NOT NULL,
+      timestamp BIGINT NOT NULL,
+      created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+      );
+
       CREATE TABLE IF NOT EXISTS bot_sessions (
       id SERIAL PRIMARY KEY,
       session_id VARCHAR(255) UNIQUE NOT NULL,
@@ -143,13 +216,130 @@ export class DatabaseClient extends EventEmitter {
       status VARCHAR(20) DEFAULT 'ACTIVE'
       );
 
+      CREATE TABLE IF NOT EXISTS trade_tape (
+      id SERIAL PRIMARY KEY,
+      coin VARCHAR(10),
+      market VARCHAR(255) NOT NULL,
+      asset_id VARCHAR(255) NOT NULL,
+      price DECIMAL(10, 6) NOT NULL,
+      size DECIMAL(18, 6) NOT NULL,
+      side VARCHAR(10) NOT NULL,
+      fee_rate_bps INTEGER DEFAULT 0,
+      timestamp BIGINT NOT NULL,
+      created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+      );
+
+      CREATE TABLE IF NOT EXISTS balance_discrepancies (
+      id SERIAL PRIMARY KEY,
+      position_id VARCHAR(255) REFERENCES positions(id),
+      coin VARCHAR(10) NOT NULL,
+      side VARCHAR(10) NOT NULL,
+      token_id VARCHAR(255) NOT NULL,
+      db_balance DECIMAL(18, 6) NOT NULL,
+      chain_balance DECIMAL(18, 6) NOT NULL,
+      open_order_shares DECIMAL(18, 6) DEFAULT 0,
+      orphaned_orders INTEGER DEFAULT 0,
+      corrected BOOLEAN DEFAULT FALSE,
+      detected_at BIGINT NOT NULL,
+      created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+      );
+
+      CREATE TABLE IF NOT EXISTS redemptions (
+      id SERIAL PRIMARY KEY,
+      condition_id VARCHAR(255) NOT NULL,
+      position_ids TEXT[] NOT NULL,
+      tx_hash VARCHAR(255),
+      amount DECIMAL(18, 6),
+      status VARCHAR(20) NOT NULL,
+      error TEXT,
+      created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+      updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+      );
+
+      CREATE TABLE IF NOT EXISTS arbitrage_opportunities (
+      id SERIAL PRIMARY KEY,
+      coin VARCHAR(10) NOT NULL,
+      market_slug VARCHAR(255) NOT NULL,
+      up_ask DECIMAL(10, 6) NOT NULL,
+      down_ask DECIMAL(10, 6) NOT NULL,
+      shares INTEGER NOT NULL,
+      up_limit DECIMAL(10, 6) NOT NULL,
+      down_limit DECIMAL(10, 6) NOT NULL,
+      cost DECIMAL(12, 4) NOT NULL,
+      edge DECIMAL(12, 4) NOT NULL,
+      status VARCHAR(20) NOT NULL,
+      position_id VARCHAR(255) REFERENCES positions(id),
+      up_filled DECIMAL(18, 6),
+      down_filled DECIMAL(18, 6),
+      filled_cost DECIMAL(12, 4),
+      reason TEXT,
+      timestamp BIGINT NOT NULL,
+      created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+      updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+      );
+
+      CREATE TABLE IF NOT EXISTS risk_rejections (
+      id SERIAL PRIMARY KEY,
+      check_type VARCHAR(20) NOT NULL,
+      coin VARCHAR(10) NOT NULL,
+      position_id VARCHAR(255) REFERENCES positions(id),
+      side VARCHAR(10),
+      shares DECIMAL(18, 6) NOT NULL,
+      price DECIMAL(10, 6) NOT NULL,
+      cost DECIMAL(12, 4) NOT NULL,
+      exposure DECIMAL(12, 4) NOT NULL,
+      open_positions INTEGER NOT NULL,
+      reason TEXT NOT NULL,
+      timestamp BIGINT NOT NULL,
+      created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+      );
+
+      CREATE TABLE IF NOT EXISTS risk_halts (
+      id SERIAL PRIMARY KEY,
+      reason TEXT NOT NULL,
+      session_pnl DECIMAL(12, 4),
+      daily_pnl DECIMAL(12, 4),
+      drawdown DECIMAL(12, 4),
+      consecutive_losses INTEGER,
+      halted_at BIGINT NOT NULL,
+      cleared_at BIGINT,
+      created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+      );
+
+      CREATE TABLE IF NOT EXISTS operator_actions (
+      id SERIAL PRIMARY KEY,
+      operator VARCHAR(100) NOT NULL,
+      action VARCHAR(20) NOT NULL,
+      coin VARCHAR(10),
+      position_id VARCHAR(255),
+      params JSONB,
+      success BOOLEAN NOT NULL,
+      result JSONB,
+      error TEXT,
+      timestamp BIGINT NOT NULL,
+      created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+      );
+
       CREATE INDEX IF NOT EXISTS idx_positions_coin ON positions(coin);
       CREATE INDEX IF NOT EXISTS idx_positions_status ON positions(status);
       CREATE INDEX IF NOT EXISTS idx_positions_market_end_time ON positions(market_end_time);
       CREATE INDEX IF NOT EXISTS idx_trades_position_id ON trades(position_id);
       CREATE INDEX IF NOT EXISTS idx_trades_created_at ON trades(created_at);
+      CREATE INDEX IF NOT EXISTS idx_trades_order_id ON trades(order_id);
+      CREATE INDEX IF NOT EXISTS idx_orders_status ON orders(status);
+      CREATE INDEX IF NOT EXISTS idx_redemptions_condition_id ON redemptions(condition_id);
+      CREATE INDEX IF NOT EXISTS idx_arbitrage_opportunities_coin_timestamp
+      ON arbitrage_opportunities(coin, timestamp);
+      CREATE INDEX IF NOT EXISTS idx_risk_rejections_coin_timestamp
+      ON risk_rejections(coin, timestamp);
       CREATE INDEX IF NOT EXISTS idx_market_snapshots_coin_timestamp
       ON market_snapshots(coin, timestamp);
+      CREATE INDEX IF NOT EXISTS idx_position_valuations_coin_timestamp
+      ON position_valuations(coin, timestamp);
+      CREATE INDEX IF NOT EXISTS idx_trade_tape_asset_timestamp
+      ON trade_tape(asset_id, timestamp);
+      CREATE INDEX IF NOT EXISTS idx_operator_actions_timestamp
+      ON operator_actions(timestamp);
    `;
     await pool.query(schemaSQL);
   }
@@ -410,8 +600,9 @@ export class DatabaseClient extends EventEmitter {
       INSERT INTO positions (
         id, coin, market_id, market_slug, side, entry_price, shares, 
         cost_basis, entry_time, hour_open_price, market_end_time, 
-        status, up_asset_id, down_asset_id, confidence
-      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15)
+        status, up_asset_id, down_asset_id, confidence, up_balance, down_balance,
+        condition_id, signal_reasons
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17, $18, $19)
     `;
 
     await this.query(query, [
@@ -430,6 +621,10 @@ export class DatabaseClient extends EventEmitter {
       position.assetIds.up,
       position.assetIds.down,
       position.confidence,
+      position.upBalance || 0,
+      position.downBalance || 0,
+      position.conditionId || null,
+      position.signalReasons || null,
     ]);
   }
 
@@ -462,6 +657,30 @@ export class DatabaseClient extends EventEmitter {
       fields.push(`pnl = $${paramCount++}`);
       values.push(updates.pnl);
     }
+    if (updates.costBasis !== undefined) {
+      fields.push(`cost_basis = $${paramCount++}`);
+      values.push(updates.costBasis);
+    }
+    if (updates.upBalance !== undefined) {
+      fields.push(`up_balance = $${paramCount++}`);
+      values.push(updates.upBalance);
+    }
+    if (updates.downBalance !== undefined) {
+      fields.push(`down_balance = $${paramCount++}`);
+      values.push(updates.downBalance);
+    }
+    if (updates.outcome !== undefined) {
+      fields.push(`outcome = $${paramCount++}`);
+      values.push(updates.outcome);
+    }
+    if (updates.payout !== undefined) {
+      fields.push(`payout = $${paramCount++}`);
+      values.push(updates.payout);
+    }
+    if (updates.realizedPnl !== undefined) {
+      fields.push(`realized_pnl = $${paramCount++}`);
+      values.push(updates.realizedPnl);
+    }
 
     if (fields.length === 0) return;
 
@@ -490,6 +709,15 @@ export class DatabaseClient extends EventEmitter {
     return result.rows.map(this.rowToPosition);
   }
 
+  async getClosedPositionsSince(since: number): Promise<Position[]> {
+    const result = await this.query(
+      'SELECT * FROM positions WHERE status = $1 AND exit_time >= $2 ORDER BY exit_time ASC',
+      ['CLOSED', since]
+    );
+
+    return result.rows.map(this.rowToPosition);
+  }
+
   async getActivePositionForMarket(coin: string, marketSlug: string): Promise<Position | null> {
     const result = await this.query(
       'SELECT * FROM positions WHERE coin = $1 AND market_slug = $2 AND status = $3 ORDER BY entry_time DESC LIMIT 1',
@@ -500,6 +728,53 @@ export class DatabaseClient extends EventEmitter {
     return this.rowToPosition(result.rows[0]);
   }
 
+  /**
+   * The most recent position trading an outcome token
+   */
+  async getPositionForAsset(tokenId: string): Promise<Position | null> {
+    const result = await this.query(
+      'SELECT * FROM positions WHERE up_asset_id = $1 OR down_asset_id = $1 ORDER BY entry_time DESC LIMIT 1',
+      [tokenId]
+    );
+
+    if (result.rows.length === 0) return null;
+    return this.rowToPosition(result.rows[0]);
+  }
+
+  /**
+   * Add a fill to a position's balances, cost basis and realized P&L in one
+   * statement, so fills landing concurrently (a resting bid filling mid-tick)
+   * can't overwrite each other. Resolves the position as updated.
+   */
+  async adjustPosition(id: string, delta: {
+    upBalance?: number;
+    downBalance?: number;
+    costBasis?: number;
+    realizedPnl?: number;
+  }): Promise<Position | null> {
+    const query = `
+      UPDATE positions SET
+        up_balance = COALESCE(up_balance, 0) + $1,
+        down_balance = COALESCE(down_balance, 0) + $2,
+        cost_basis = cost_basis + $3,
+        realized_pnl = COALESCE(realized_pnl, 0) + $4,
+        updated_at = CURRENT_TIMESTAMP
+      WHERE id = $5
+      RETURNING *
+    `;
+
+    const result = await this.query(query, [
+      delta.upBalance || 0,
+      delta.downBalance || 0,
+      delta.costBasis || 0,
+      delta.realizedPnl || 0,
+      id,
+    ]);
+
+    if (result.rows.length === 0) return null;
+    return this.rowToPosition(result.rows[0]);
+  }
+
   private rowToPosition(row: any): Position {
     return {
       id: row.id,
@@ -508,7 +783,7 @@ export class DatabaseClient extends EventEmitter {
       marketSlug: row.market_slug,
       side: row.side,
       entryPrice: parseFloat(row.entry_price),
-      shares: row.shares,
+      shares: parseFloat(row.shares),
       costBasis: parseFloat(row.cost_basis),
       entryTime: parseInt(row.entry_time),
       hourOpenPrice: parseFloat(row.hour_open_price),
@@ -524,8 +799,13 @@ export class DatabaseClient extends EventEmitter {
         down: row.down_asset_id,
       },
       confidence: row.confidence,
-      upBalance: row.up_balance || 0,
-      downBalance: row.down_balance || 0,
+      signalReasons: row.signal_reasons || undefined,
+      upBalance: row.up_balance !== null ? parseFloat(row.up_balance) : 0,
+      downBalance: row.down_balance !== null ? parseFloat(row.down_balance) : 0,
+      outcome: row.outcome || undefined,
+      payout: row.payout ? parseFloat(row.payout) : undefined,
+      conditionId: row.condition_id || undefined,
+      realizedPnl: row.realized_pnl ? parseFloat(row.realized_pnl) : 0,
     };
   }
 
@@ -546,14 +826,18 @@ export class DatabaseClient extends EventEmitter {
     imbalance: number;
     reason: string;
     executed: boolean;
+    mode: 'paper' | 'live';
     error?: string;
+    orderId?: string;
+    confidence?: number;
+    signalReasons?: string[];
   }): Promise<void> {
     const query = `
       INSERT INTO trades (
         position_id, coin, side, action, token_id, shares, price, 
         cost, current_price, up_balance, down_balance, imbalance, 
-        reason, executed, error
-      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15)
+        reason, executed, error, order_id, confidence, signal_reasons, mode
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17, $18, $19)
     `;
 
     await this.query(query, [
@@ -572,9 +856,26 @@ export class DatabaseClient extends EventEmitter {
       trade.reason,
       trade.executed,
       trade.error || null,
+      trade.orderId || null,
+      trade.confidence ?? null,
+      trade.signalReasons || null,
+      trade.mode,
     ]);
   }
 
+  /**
+   * Average price paid per share of one side of a position (sells don't change it)
+   */
+  async getAverageBuyPrice(positionId: string, side: 'UP' | 'DOWN'): Promise<number> {
+    const result = await this.query(
+      `SELECT COALESCE(SUM(cost) / NULLIF(SUM(shares), 0), 0) AS avg_price
+       FROM trades
+       WHERE position_id = $1 AND side = $2 AND action = 'BUY' AND executed = TRUE`,
+      [positionId, side]
+    );
+    return parseFloat(result.rows[0].avg_price) || 0;
+  }
+
   async getTradesForPosition(positionId: string): Promise<any[]> {
     const result = await this.query(
       'SELECT * FROM trades WHERE position_id = $1 ORDER BY created_at ASC',
@@ -583,6 +884,403 @@ export class DatabaseClient extends EventEmitter {
     return result.rows;
   }
 
+  // ========== ORDER OPERATIONS ==========
+
+  async insertOrder(order: TrackedOrder): Promise<void> {
+    const query = `
+      INSERT INTO orders (
+        id, coin, token_id, side, price, size, filled_size,
+        avg_fill_price, status, mode, error, resting
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12)
+    `;
+
+    await this.query(query, [
+      order.id,
+      order.coin || null,
+      order.tokenId,
+      order.side,
+      order.price,
+      order.size,
+      order.filledSize,
+      order.avgFillPrice || null,
+      order.status,
+      order.mode,
+      order.error || null,
+      order.resting || false,
+    ]);
+  }
+
+  async updateOrder(id: string, updates: { filledSize?: number; avgFillPrice?: number; status?: OrderStatus; error?: string }): Promise<void> {
+    const fields: string[] = [];
+    const values: any[] = [];
+    let paramCount = 1;
+
+    if (updates.filledSize !== undefined) {
+      fields.push(`filled_size = $${paramCount++}`);
+      values.push(updates.filledSize);
+    }
+    if (updates.avgFillPrice !== undefined) {
+      fields.push(`avg_fill_price = $${paramCount++}`);
+      values.push(updates.avgFillPrice);
+    }
+    if (updates.status !== undefined) {
+      fields.push(`status = $${paramCount++}`);
+      values.push(updates.status);
+    }
+    if (updates.error !== undefined) {
+      fields.push(`error = $${paramCount++}`);
+      values.push(updates.error);
+    }
+
+    if (fields.length === 0) return;
+
+    fields.push(`updated_at = CURRENT_TIMESTAMP`);
+    values.push(id);
+
+    const query = `UPDATE orders SET ${fields.join(', ')} WHERE id = $${paramCount}`;
+    await this.query(query, values);
+  }
+
+  async getOrdersByStatus(statuses: OrderStatus[]): Promise<any[]> {
+    const result = await this.query(
+      'SELECT * FROM orders WHERE status = ANY($1) ORDER BY created_at ASC',
+      [statuses]
+    );
+    return result.rows;
+  }
+
+  // ========== RECONCILIATION OPERATIONS ==========
+
+  async insertBalanceDiscrepancy(discrepancy: {
+    positionId: string;
+    coin: string;
+    side: 'UP' | 'DOWN';
+    tokenId: string;
+    dbBalance: number;
+    chainBalance: number;
+    openOrderShares: number;
+    orphanedOrders: number;
+    corrected: boolean;
+    detectedAt: number;
+  }): Promise<void> {
+    const query = `
+      INSERT INTO balance_discrepancies (
+        position_id, coin, side, token_id, db_balance, chain_balance,
+        open_order_shares, orphaned_orders, corrected, detected_at
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)
+    `;
+
+    await this.query(query, [
+      discrepancy.positionId,
+      discrepancy.coin,
+      discrepancy.side,
+      discrepancy.tokenId,
+      discrepancy.dbBalance,
+      discrepancy.chainBalance,
+      discrepancy.openOrderShares,
+      discrepancy.orphanedOrders,
+      discrepancy.corrected,
+      discrepancy.detectedAt,
+    ]);
+  }
+
+  // ========== REDEMPTION OPERATIONS ==========
+
+  /**
+   * Closed positions whose winning tokens haven't been redeemed (or attempted) yet
+   */
+  async getPositionsAwaitingRedemption(): Promise<Position[]> {
+    const result = await this.query(
+      `SELECT p.* FROM positions p
+       WHERE p.status = 'CLOSED' AND p.condition_id IS NOT NULL
+       AND NOT EXISTS (
+         SELECT 1 FROM redemptions r
+         WHERE r.condition_id = p.condition_id AND r.status IN ('PENDING', 'CONFIRMED', 'SKIPPED')
+       )
+       ORDER BY p.exit_time ASC`
+    );
+
+    return result.rows.map(this.rowToPosition);
+  }
+
+  async insertRedemption(redemption: {
+    conditionId: string;
+    positionIds: string[];
+    txHash?: string;
+    amount?: number;
+    status: 'PENDING' | 'CONFIRMED' | 'SKIPPED' | 'FAILED';
+    error?: string;
+  }): Promise<number> {
+    const query = `
+      INSERT INTO redemptions (condition_id, position_ids, tx_hash, amount, status, error)
+      VALUES ($1, $2, $3, $4, $5, $6)
+      RETURNING id
+    `;
+
+    const result = await this.query(query, [
+      redemption.conditionId,
+      redemption.positionIds,
+      redemption.txHash || null,
+      redemption.amount ?? null,
+      redemption.status,
+      redemption.error || null,
+    ]);
+    return result.rows[0].id;
+  }
+
+  async updateRedemption(id: number, updates: { amount?: number; status?: string; error?: string }): Promise<void> {
+    const fields: string[] = [];
+    const values: any[] = [];
+    let paramCount = 1;
+
+    if (updates.amount !== undefined) {
+      fields.push(`amount = $${paramCount++}`);
+      values.push(updates.amount);
+    }
+    if (updates.status !== undefined) {
+      fields.push(`status = $${paramCount++}`);
+      values.push(updates.status);
+    }
+    if (updates.error !== undefined) {
+      fields.push(`error = $${paramCount++}`);
+      values.push(updates.error);
+    }
+
+    if (fields.length === 0) return;
+
+    fields.push(`updated_at = CURRENT_TIMESTAMP`);
+    values.push(id);
+
+    await this.query(`UPDATE redemptions SET ${fields.join(', ')} WHERE id = $${paramCount}`, values);
+  }
+
+  /**
+   * Failed redemption attempts per condition and how long ago the latest one
+   * failed (measured in the DB, whose clock wrote updated_at)
+   */
+  async getRedemptionFailures(): Promise<Array<{ conditionId: string; failures: number; msSinceLastFailure: number }>> {
+    const result = await this.query(
+      `SELECT condition_id, COUNT(*) AS failures,
+              EXTRACT(EPOCH FROM (LOCALTIMESTAMP - MAX(updated_at))) * 1000 AS ms_since_last_failure
+       FROM redemptions
+       WHERE status = 'FAILED'
+       GROUP BY condition_id`
+    );
+
+    return result.rows.map(row => ({
+      conditionId: row.condition_id,
+      failures: parseInt(row.failures),
+      msSinceLastFailure: parseFloat(row.ms_since_last_failure),
+    }));
+  }
+
+  async getPendingRedemptions(): Promise<any[]> {
+    const result = await this.query(
+      `SELECT * FROM redemptions WHERE status = 'PENDING' ORDER BY created_at ASC`
+    );
+    return result.rows;
+  }
+
+  // ========== ARBITRAGE OPERATIONS ==========
+
+  async insertArbitrageOpportunity(
+    opportunity: ArbitrageOpportunity,
+    status: ArbitrageStatus,
+    reason?: string
+  ): Promise<number> {
+    const query = `
+      INSERT INTO arbitrage_opportunities (
+        coin, market_slug, up_ask, down_ask, shares, up_limit, down_limit,
+        cost, edge, status, reason, timestamp
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12)
+      RETURNING id
+    `;
+
+    const result = await this.query(query, [
+      opportunity.coin,
+      opportunity.marketSlug,
+      opportunity.upAsk,
+      opportunity.downAsk,
+      opportunity.shares,
+      opportunity.upLimit,
+      opportunity.downLimit,
+      opportunity.cost,
+      opportunity.edge,
+      status,
+      reason || null,
+      opportunity.timestamp,
+    ]);
+    return result.rows[0].id;
+  }
+
+  async updateArbitrageOpportunity(id: number, updates: {
+    status?: ArbitrageStatus;
+    positionId?: string;
+    upFilled?: number;
+    downFilled?: number;
+    filledCost?: number;
+    reason?: string;
+  }): Promise<void> {
+    const fields: string[] = [];
+    const values: any[] = [];
+    let paramCount = 1;
+
+    if (updates.status !== undefined) {
+      fields.push(`status = $${paramCount++}`);
+      values.push(updates.status);
+    }
+    if (updates.positionId !== undefined) {
+      fields.push(`position_id = $${paramCount++}`);
+      values.push(updates.positionId);
+    }
+    if (updates.upFilled !== undefined) {
+      fields.push(`up_filled = $${paramCount++}`);
+      values.push(updates.upFilled);
+    }
+    if (updates.downFilled !== undefined) {
+      fields.push(`down_filled = $${paramCount++}`);
+      values.push(updates.downFilled);
+    }
+    if (updates.filledCost !== undefined) {
+      fields.push(`filled_cost = $${paramCount++}`);
+      values.push(updates.filledCost);
+    }
+    if (updates.reason !== undefined) {
+      fields.push(`reason = $${paramCount++}`);
+      values.push(updates.reason);
+    }
+
+    if (fields.length === 0) return;
+
+    fields.push(`updated_at = CURRENT_TIMESTAMP`);
+    values.push(id);
+
+    await this.query(`UPDATE arbitrage_opportunities SET ${fields.join(', ')} WHERE id = $${paramCount}`, values);
+  }
+
+  // ========== RISK OPERATIONS ==========
+
+  async insertRiskRejection(rejection: RiskRejection): Promise<void> {
+    const query = `
+      INSERT INTO risk_rejections (
+        check_type, coin, position_id, side, shares, price, cost,
+        exposure, open_positions, reason, timestamp
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11)
+    `;
+
+    await this.query(query, [
+      rejection.check,
+      rejection.coin,
+      rejection.positionId || null,
+      rejection.side || null,
+      rejection.shares,
+      rejection.price,
+      rejection.cost,
+      rejection.exposure,
+      rejection.openPositions,
+      rejection.reason,
+      rejection.timestamp,
+    ]);
+  }
+
+  async insertRiskHalt(halt: RiskHalt): Promise<number> {
+    const query = `
+      INSERT INTO risk_halts (
+        reason, session_pnl, daily_pnl, drawdown, consecutive_losses, halted_at
+      ) VALUES ($1, $2, $3, $4, $5, $6)
+      RETURNING id
+    `;
+
+    const result = await this.query(query, [
+      halt.reason,
+      halt.snapshot?.sessionPnl ?? null,
+      halt.snapshot?.dailyPnl ?? null,
+      halt.snapshot?.drawdown ?? null,
+      halt.snapshot?.consecutiveLosses ?? null,
+      halt.haltedAt,
+    ]);
+    return result.rows[0].id;
+  }
+
+  async getActiveRiskHalt(): Promise<RiskHalt | null> {
+    const result = await this.query(
+      'SELECT * FROM risk_halts WHERE cleared_at IS NULL ORDER BY halted_at DESC LIMIT 1'
+    );
+
+    if (result.rows.length === 0) return null;
+    return this.rowToRiskHalt(result.rows[0]);
+  }
+
+  async getLastClearedRiskHalt(): Promise<RiskHalt | null> {
+    const result = await this.query(
+      'SELECT * FROM risk_halts WHERE cleared_at IS NOT NULL ORDER BY cleared_at DESC LIMIT 1'
+    );
+
+    if (result.rows.length === 0) return null;
+    return this.rowToRiskHalt(result.rows[0]);
+  }
+
+  async clearRiskHalts(clearedAt: number): Promise<void> {
+    await this.query('UPDATE risk_halts SET cleared_at = $1 WHERE cleared_at IS NULL', [clearedAt]);
+  }
+
+  private rowToRiskHalt(row: any): RiskHalt {
+    return {
+      id: row.id,
+      reason: row.reason,
+      snapshot: row.session_pnl !== null ? {
+        sessionPnl: parseFloat(row.session_pnl),
+        dailyPnl: parseFloat(row.daily_pnl),
+        drawdown: parseFloat(row.drawdown),
+        consecutiveLosses: row.consecutive_losses,
+        timestamp: parseInt(row.halted_at),
+      } : null,
+      haltedAt: parseInt(row.halted_at),
+      clearedAt: row.cleared_at !== null ? parseInt(row.cleared_at) : undefined,
+    };
+  }
+
+  // ========== OPERATOR AUDIT OPERATIONS ==========
+
+  async insertOperatorAction(action: OperatorAction): Promise<void> {
+    const query = `
+      INSERT INTO operator_actions (
+        operator, action, coin, position_id, params, success, result, error, timestamp
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
+    `;
+
+    await this.query(query, [
+      action.operator,
+      action.action,
+      action.coin || null,
+      action.positionId || null,
+      action.params !== undefined ? JSON.stringify(action.params) : null,
+      action.success,
+      action.result !== undefined ? JSON.stringify(action.result) : null,
+      action.error || null,
+      action.timestamp,
+    ]);
+  }
+
+  async listOperatorActions(filter: ListFilter): Promise<Page<OperatorAction>> {
+    return this.listPage('operator_actions', 'timestamp', filter, 'timestamp DESC', this.rowToOperatorAction);
+  }
+
+  private rowToOperatorAction(row: any): OperatorAction {
+    return {
+      id: row.id,
+      operator: row.operator,
+      action: row.action,
+      coin: row.coin || undefined,
+      positionId: row.position_id || undefined,
+      params: row.params ?? undefined,
+      success: row.success,
+      result: row.result ?? undefined,
+      error: row.error || undefined,
+      timestamp: parseInt(row.timestamp),
+    };
+  }
+
   // ========== SNAPSHOT OPERATIONS ==========
 
   async insertSnapshot(snapshot: {
@@ -598,14 +1296,18 @@ export class DatabaseClient extends EventEmitter {
     downBestBid?: number;
     downBestAsk?: number;
     spread?: number;
+    realizedVolatility?: number;
+    fairUp?: number;
+    fairDown?: number;
     timestamp: number;
   }): Promise<void> {
     const query = `
       INSERT INTO market_snapshots (
         coin, market_slug, price, price_change_1m, price_change_5m, 
         price_change_15m, volatility, up_best_bid, up_best_ask, 
-        down_best_bid, down_best_ask, spread, timestamp
-      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13)
+        down_best_bid, down_best_ask, spread, timestamp,
+        realized_volatility, fair_up, fair_down
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16)
     `;
 
     await this.query(query, [
@@ -622,6 +1324,197 @@ export class DatabaseClient extends EventEmitter {
       snapshot.downBestAsk || null,
       snapshot.spread || null,
       snapshot.timestamp,
+      snapshot.realizedVolatility ?? null,
+      snapshot.fairUp ?? null,
+      snapshot.fairDown ?? null,
+    ]);
+  }
+
+  /**
+   * Snapshots in a time range, grouped by market and ordered by time
+   */
+  async getSnapshots(from: number, to: number, coin?: string): Promise<MarketSnapshot[]> {
+    const params: any[] = [from, to];
+    let query = 'SELECT * FROM market_snapshots WHERE timestamp >= $1 AND timestamp < $2';
+
+    if (coin) {
+      params.push(coin);
+      query += ' AND coin = $3';
+    }
+    query += ' ORDER BY coin, market_slug, timestamp ASC';
+
+    const result = await this.query(query, params);
+
+    return result.rows.map(this.rowToSnapshot);
+  }
+
+  private rowToSnapshot(row: any): MarketSnapshot {
+    return {
+      coin: row.coin,
+      marketSlug: row.market_slug,
+      price: parseFloat(row.price),
+      priceChange1m: parseFloat(row.price_change_1m) || 0,
+      priceChange5m: parseFloat(row.price_change_5m) || 0,
+      priceChange15m: parseFloat(row.price_change_15m) || 0,
+      volatility: parseFloat(row.volatility) || 0,
+      upBestBid: parseFloat(row.up_best_bid) || 0,
+      upBestAsk: parseFloat(row.up_best_ask) || 0,
+      downBestBid: parseFloat(row.down_best_bid) || 0,
+      downBestAsk: parseFloat(row.down_best_ask) || 0,
+      realizedVolatility: row.realized_volatility != null ? parseFloat(row.realized_volatility) : undefined,
+      fairUp: row.fair_up != null ? parseFloat(row.fair_up) : undefined,
+      fairDown: row.fair_down != null ? parseFloat(row.fair_down) : undefined,
+      timestamp: parseInt(row.timestamp),
+    };
+  }
+
+  // ========== VALUATION OPERATIONS ==========
+
+  async insertValuation(valuation: PositionValuation): Promise<void> {
+    const query = `
+      INSERT INTO position_valuations (
+        position_id, coin, market_slug, up_balance, down_balance, up_bid, down_bid,
+        up_mid, down_mid, liquidation_value, mid_value, cost_basis, realized_pnl,
+        unrealized_pnl, unrealized_pnl_mid, guaranteed_payout, timestamp
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17)
+    `;
+
+    await this.query(query, [
+      valuation.positionId,
+      valuation.coin,
+      valuation.marketSlug,
+      valuation.upBalance,
+      valuation.downBalance,
+      valuation.upBid,
+      valuation.downBid,
+      valuation.upMid,
+      valuation.downMid,
+      valuation.liquidationValue,
+      valuation.midValue,
+      valuation.costBasis,
+      valuation.realizedPnl,
+      valuation.unrealizedPnl,
+      valuation.unrealizedPnlMid,
+      valuation.guaranteedPayout,
+      valuation.timestamp,
+    ]);
+  }
+
+  async getValuations(from: number, to: number, coin?: string): Promise<PositionValuation[]> {
+    const params: any[] = [from, to];
+    let query = 'SELECT * FROM position_valuations WHERE timestamp >= $1 AND timestamp < $2';
+
+    if (coin) {
+      params.push(coin);
+      query += ' AND coin = $3';
+    }
+    query += ' ORDER BY coin, timestamp ASC';
+
+    const result = await this.query(query, params);
+
+    return result.rows.map((row: any) => ({
+      positionId: row.position_id,
+      coin: row.coin,
+      marketSlug: row.market_slug,
+      upBalance: parseFloat(row.up_balance),
+      downBalance: parseFloat(row.down_balance),
+      upBid: parseFloat(row.up_bid) || 0,
+      downBid: parseFloat(row.down_bid) || 0,
+      upMid: parseFloat(row.up_mid) || 0,
+      downMid: parseFloat(row.down_mid) || 0,
+      liquidationValue: parseFloat(row.liquidation_value),
+      midValue: parseFloat(row.mid_value),
+      costBasis: parseFloat(row.cost_basis),
+      realizedPnl: parseFloat(row.realized_pnl),
+      unrealizedPnl: parseFloat(row.unrealized_pnl),
+      unrealizedPnlMid: parseFloat(row.unrealized_pnl_mid),
+      guaranteedPayout: parseFloat(row.guaranteed_payout),
+      timestamp: parseInt(row.timestamp),
+    }));
+  }
+
+  // ========== LIST QUERIES (REST API) ==========
+
+  async listPositions(filter: ListFilter, status?: Position['status']): Promise<Page<Position>> {
+    const conditions: Array<[string, any]> = status ? [['status = ?', status]] : [];
+    return this.listPage('positions', 'entry_time', filter, 'entry_time DESC', this.rowToPosition, conditions);
+  }
+
+  async listTrades(filter: ListFilter, mode?: 'paper' | 'live'): Promise<Page<any>> {
+    const conditions: Array<[string, any]> = mode ? [['mode = ?', mode]] : [];
+    // created_at is a local TIMESTAMP - read it in the session's zone or the window shifts by the UTC offset
+    return this.listPage(
+      'trades',
+      "(EXTRACT(EPOCH FROM created_at AT TIME ZONE current_setting('TimeZone')) * 1000)",
+      filter,
+      'created_at DESC',
+      row => row,
+      conditions
+    );
+  }
+
+  async listSnapshots(filter: ListFilter): Promise<Page<MarketSnapshot>> {
+    return this.listPage('market_snapshots', 'timestamp', filter, 'timestamp DESC', this.rowToSnapshot);
+  }
+
+  /**
+   * One page of `table` filtered by coin and a [from, to) window on `timeColumn`
+   * (ms), plus any extra `column = ?` style conditions
+   */
+  private async listPage<T>(
+    table: string,
+    timeColumn: string,
+    filter: ListFilter,
+    orderBy: string,
+    mapRow: (row: any) => T,
+    conditions: Array<[string, any]> = []
+  ): Promise<Page<T>> {
+    const where: string[] = [];
+    const params: any[] = [];
+    const add = (condition: string, value: any) => {
+      params.push(value);
+      where.push(condition.replace('?', `$${params.length}`));
+    };
+
+    if (filter.coin) add('coin = ?', filter.coin);
+    if (filter.from !== undefined) add(`${timeColumn} >= ?`, filter.from);
+    if (filter.to !== undefined) add(`${timeColumn} < ?`, filter.to);
+    for (const [condition, value] of conditions) add(condition, value);
+
+    const whereSql = where.length > 0 ? `WHERE ${where.join(' AND ')}` : '';
+
+    const count = await this.query(`SELECT COUNT(*) AS total FROM ${table} ${whereSql}`, params);
+    const result = await this.query(
+      `SELECT * FROM ${table} ${whereSql} ORDER BY ${orderBy} LIMIT $${params.length + 1} OFFSET $${params.length + 2}`,
+      [...params, filter.limit, filter.offset]
+    );
+
+    return {
+      items: result.rows.map(mapRow),
+      total: parseInt(count.rows[0].total),
+      limit: filter.limit,
+      offset: filter.offset,
+    };
+  }
+
+  // ========== TRADE TAPE OPERATIONS ==========
+
+  async insertTapeTrade(coin: string | null, trade: TapeTrade): Promise<void> {
+    const query = `
+      INSERT INTO trade_tape (
+        coin, market, asset_id, price, size, side, fee_rate_bps, timestamp
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+    `;
+
+    await this.query(query, [
+      coin,
+      trade.market,
+      trade.assetId,
+      trade.price,
+      trade.size,
+      trade.side,
+      trade.feeRateBps,
+      trade.timestamp,
     ]);
   }
 
@@ -639,11 +1532,17 @@ export class DatabaseClient extends EventEmitter {
       FROM positions
     `);
 
-    const tradesResult = await this.query('SELECT COUNT(*) as total_trades FROM trades');
+    const tradesResult = await this.query(`
+      SELECT
+        COUNT(*) as total_trades,
+        COUNT(*) FILTER (WHERE mode = 'paper') as paper_trades,
+        COUNT(*) FILTER (WHERE mode = 'live') as live_trades
+      FROM trades
+    `);
 
     return {
       ...result.rows[0],
-      total_trades: tradesResult.rows[0].total_trades,
+      ...tradesResult.rows[0],
     };
   }
 
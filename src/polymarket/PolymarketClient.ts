@@ -2,26 +2,39 @@
 // 4. POLYMARKET CLIENT (src/polymarket/PolymarketClient.ts)
 // ============================================================================
 
-import { ClobClient, Chain, Side } from '@polymarket/clob-client';
+import { AssetType, ClobClient, Chain, OpenOrder, OrderType, Side } from '@polymarket/clob-client';
 import { Wallet } from 'ethers';
 import axios from 'axios';
-import { OrderBookData, PolymarketMarket } from '../types';
+import { EventEmitter } from 'events';
+import { OrderBookData, PolymarketMarket, TapeTrade, TradeStats } from '../types';
 import { BotConfig } from '../config';
 import { PolymarketWebSocket } from './websocket';
+import { TradeTape } from './TradeTape';
+import { BookMessage, LastTradePriceMessage, LocalOrderBook } from './types';
+import { Clock, systemClock } from '../utils/clock';
 
-export class PolymarketClient {
+export class PolymarketClient extends EventEmitter {
   private clobClient: ClobClient;
   private gammaApiUrl: string;
   private ws: PolymarketWebSocket | null = null;
   private marketAssetIds: Map<string, { assetId1: string; assetId2: string }> = new Map();
+  private tradeTape: TradeTape;
+  private wallet: Wallet;
+  private clock: Clock;
+  private replay: boolean;
 
-  constructor(config: BotConfig) {
-    const wallet = new Wallet(config.polymarket.privateKey);
+  constructor(config: BotConfig, clock: Clock = systemClock) {
+    super();
+
+    this.clock = clock;
+    this.replay = !!config.feeds.replayFile;
+
+    this.wallet = new Wallet(config.polymarket.privateKey);
 
     this.clobClient = new ClobClient(
       config.polymarket.host,
       Chain.POLYGON,
-      wallet,
+      this.wallet,
       {
         key: config.polymarket.apiKey,
         secret: config.polymarket.apiSecret,
@@ -30,9 +43,17 @@ export class PolymarketClient {
     );
 
     this.gammaApiUrl = config.polymarket.gammaApiUrl;
+    this.tradeTape = new TradeTape(config.marketData.tradeTapeWindowMs, clock);
     // Don't initialize WebSocket here - do it when we first subscribe
   }
 
+  /**
+   * The trading wallet (not connected to a provider)
+   */
+  getWallet(): Wallet {
+    return this.wallet;
+  }
+
   async start(): Promise<void> {
     console.log('🔗 Connecting to Polymarket...');
     console.log('✅ Polymarket client started');
@@ -44,11 +65,37 @@ export class PolymarketClient {
   private initializeWebSocket(): void {
     if (this.ws) {
       console.log('🔄 Cleaning up existing WebSocket...');
+      this.ws.removeAllListeners();
       this.ws.disconnect();
       this.ws = null;
     }
     console.log('✨ Creating new WebSocket instance...');
-    this.ws = new PolymarketWebSocket();
+    this.ws = new PolymarketWebSocket(this.clock, this.replay);
+
+    // Re-emit book events so listeners survive WebSocket re-creation on market refresh
+    this.ws.on('book', (message: BookMessage) => this.emit('book', message));
+    this.ws.on('book_update', (book: LocalOrderBook) => this.emit('book_update', book));
+    this.ws.on('last_trade_price', (message: LastTradePriceMessage) => this.recordTrade(message));
+    this.ws.on('desync', (assetId: string) => this.emit('desync', assetId));
+    this.ws.on('raw', (text: string) => this.emit('raw', text));
+  }
+
+  /**
+   * Add a last_trade_price event to the tape and notify listeners
+   */
+  private recordTrade(message: LastTradePriceMessage): void {
+    const trade: TapeTrade = {
+      assetId: message.asset_id,
+      market: message.market,
+      price: parseFloat(message.price),
+      size: parseFloat(message.size),
+      side: message.side,
+      feeRateBps: parseInt(message.fee_rate_bps) || 0,
+      timestamp: parseInt(message.timestamp) || this.clock.now(),
+    };
+
+    this.tradeTape.record(trade);
+    this.emit('trade', trade);
   }
 
   /**
@@ -164,6 +211,8 @@ export class PolymarketClient {
     if (assets && this.ws) {
       console.log(`📡 Unsubscribing from ${coin} market: ${assets.assetId1.slice(0, 8)}..., ${assets.assetId2.slice(0, 8)}...`);
       this.ws.unsubscribe([assets.assetId1, assets.assetId2]);
+      this.tradeTape.clear(assets.assetId1);
+      this.tradeTape.clear(assets.assetId2);
       this.marketAssetIds.delete(coin);
     } else {
       console.warn(`⚠️ unsubscribeFromMarket: No assets found for ${coin} in map`);
@@ -182,7 +231,7 @@ export class PolymarketClient {
 
   async fetchMarket(slugPrefix: string, initial: boolean = true): Promise<PolymarketMarket | null> {
     try {
-      const now = new Date();
+      const now = new Date(this.clock.now());
 
       if (!initial) {
         now.setTime(now.getTime() + 1 * 60 * 60 * 1000);
@@ -217,7 +266,33 @@ export class PolymarketClient {
     }
   }
 
-  async buyShares(tokenId: string, amount: number, maxPrice: number): Promise<boolean> {
+  /**
+   * Winning outcome of a market according to Gamma, or null if it has not resolved yet.
+   * Outcomes are ordered like clobTokenIds, so index 0 is UP.
+   */
+  async getResolvedOutcome(slug: string): Promise<'UP' | 'DOWN' | null> {
+    try {
+      const response = await axios.get(`${this.gammaApiUrl}/markets/slug/${slug}`);
+      const market = response.data;
+
+      if (!market?.closed || !market.outcomePrices) {
+        return null;
+      }
+
+      const prices: number[] = JSON.parse(market.outcomePrices).map((p: string) => parseFloat(p));
+      if (prices[0] === 1) return 'UP';
+      if (prices[1] === 1) return 'DOWN';
+      return null;
+    } catch (error) {
+      console.error(`Failed to fetch resolution for ${slug}:`, error);
+      return null;
+    }
+  }
+
+  /**
+   * Place a limit buy. Returns the CLOB order ID, or null if the order was rejected.
+   */
+  async buyShares(tokenId: string, amount: number, maxPrice: number): Promise<string | null> {
     try {
       console.log(`📝 BUYING ${amount} shares @ max $${maxPrice.toFixed(4)}`);
 
@@ -229,15 +304,51 @@ export class PolymarketClient {
         feeRateBps: 0,
       });
 
+      if (!order?.orderID || order.success === false) {
+        console.error(`❌ Buy order rejected:`, order?.errorMsg || order?.error || order);
+        return null;
+      }
+
       console.log(`✅ Buy order placed:`, order);
-      return true;
+      return order.orderID;
     } catch (error) {
       console.error(`❌ Buy order failed:`, error);
-      return false;
+      return null;
     }
   }
 
-  async sellShares(tokenId: string, amount: number, minPrice: number): Promise<boolean> {
+  /**
+   * Place a post-only resting bid. The CLOB rejects it instead of matching if it
+   * would cross the ask. Returns the CLOB order ID, or null if rejected.
+   */
+  async postBid(tokenId: string, amount: number, price: number): Promise<string | null> {
+    try {
+      console.log(`📝 BIDDING ${amount} shares @ $${price.toFixed(4)} (post-only)`);
+
+      const order = await this.clobClient.createAndPostOrder({
+        tokenID: tokenId,
+        price,
+        size: amount,
+        side: Side.BUY,
+        feeRateBps: 0,
+      }, undefined, OrderType.GTC, false, true);
+
+      if (!order?.orderID || order.success === false) {
+        console.error(`❌ Bid rejected:`, order?.errorMsg || order?.error || order);
+        return null;
+      }
+
+      return order.orderID;
+    } catch (error) {
+      console.error(`❌ Bid failed:`, error);
+      return null;
+    }
+  }
+
+  /**
+   * Place a limit sell. Returns the CLOB order ID, or null if the order was rejected.
+   */
+  async sellShares(tokenId: string, amount: number, minPrice: number): Promise<string | null> {
     try {
       console.log(`📝 SELLING ${amount} shares @ min $${minPrice.toFixed(4)}`);
 
@@ -249,12 +360,92 @@ export class PolymarketClient {
         feeRateBps: 0,
       });
 
+      if (!order?.orderID || order.success === false) {
+        console.error(`❌ Sell order rejected:`, order?.errorMsg || order?.error || order);
+        return null;
+      }
+
       console.log(`✅ Sell order placed:`, order);
-      return true;
+      return order.orderID;
     } catch (error) {
       console.error(`❌ Sell order failed:`, error);
+      return null;
+    }
+  }
+
+  /**
+   * Fetch an order's current state from the CLOB
+   */
+  async getOrder(orderId: string): Promise<OpenOrder | null> {
+    try {
+      const order = await this.clobClient.getOrder(orderId);
+      return order?.id ? order : null;
+    } catch (error) {
+      console.error(`❌ Failed to fetch order ${orderId}:`, error);
+      return null;
+    }
+  }
+
+  /**
+   * Outcome token balance held by our wallet, in shares (null if the lookup failed)
+   */
+  async getTokenBalance(tokenId: string): Promise<number | null> {
+    try {
+      const response = await this.clobClient.getBalanceAllowance({
+        asset_type: AssetType.CONDITIONAL,
+        token_id: tokenId,
+      });
+
+      // Conditional tokens use 6 decimals like USDC
+      const raw = parseFloat(response?.balance);
+      return isNaN(raw) ? null : raw / 1e6;
+    } catch (error) {
+      console.error(`❌ Failed to fetch balance for ${tokenId.slice(0, 8)}...:`, error);
+      return null;
+    }
+  }
+
+  /**
+   * Our open orders on the CLOB for an asset (null if the lookup failed)
+   */
+  async getOpenOrdersForAsset(assetId: string): Promise<OpenOrder[] | null> {
+    try {
+      const orders = await this.clobClient.getOpenOrders({ asset_id: assetId });
+      return Array.isArray(orders) ? orders : null;
+    } catch (error) {
+      console.error(`❌ Failed to fetch open orders for ${assetId.slice(0, 8)}...:`, error);
+      return null;
+    }
+  }
+
+  /**
+   * Cancel an open order on the CLOB. True only if the CLOB lists the order as cancelled.
+   */
+  async cancelOrder(orderId: string): Promise<boolean> {
+    try {
+      // Request errors come back as `{ error }` rather than being thrown
+      const response = await this.clobClient.cancelOrder({ orderID: orderId });
+      if (Array.isArray(response?.canceled) && response.canceled.includes(orderId)) {
+        return true;
+      }
+
+      const reason = response?.not_canceled?.[orderId] ?? response?.error ?? 'not cancelled';
+      console.error(`❌ Failed to cancel order ${orderId}: ${typeof reason === 'string' ? reason : JSON.stringify(reason)}`);
       return false;
+    } catch (error) {
+      console.error(`❌ Failed to cancel order ${orderId}:`, error);
+      return false;
+    }
+  }
+
+  /**
+   * Feed a recorded market channel message into the order books
+   */
+  ingestMarketMessage(data: string): void {
+    if (!this.ws) {
+      this.initializeWebSocket();
     }
+    this.ws!.ingest(data);
   }
 
   /**
@@ -271,20 +462,53 @@ export class PolymarketClient {
       return null;
     }
 
-    const bestBid = parseFloat(bookData.bestBid);
-    const bestAsk = parseFloat(bookData.bestAsk);
+    const bestBid = bookData.bids[0]?.price ?? 0;
+    const bestAsk = bookData.asks[0]?.price ?? 0;
 
     return {
       assetId,
-      bids: [{ price: bestBid, size: 0 }],
-      asks: [{ price: bestAsk, size: 0 }],
+      bids: bookData.bids.map(level => ({ ...level })),
+      asks: bookData.asks.map(level => ({ ...level })),
       bestBid,
       bestAsk,
       spread: bestAsk - bestBid,
       mid: (bestBid + bestAsk) / 2,
+      bidDepth: bookData.bids.reduce((sum, level) => sum + level.size, 0),
+      askDepth: bookData.asks.reduce((sum, level) => sum + level.size, 0),
+      timestamp: bookData.timestamp,
+      tickSize: bookData.tickSize,
+      lastTradePrice: bookData.lastTradePrice,
+      inSync: bookData.inSync,
+      tradeStats: this.tradeTape.getStats(assetId),
     };
   }
 
+  /**
+   * Rolling trade statistics (VWAP, volume, aggressor ratio) for an asset
+   */
+  getTradeStats(assetId: string): TradeStats {
+    return this.tradeTape.getStats(assetId);
+  }
+
+  /**
+   * Find which coin a subscribed asset ID belongs to
+   */
+  getCoinForAsset(assetId: string): string | null {
+    for (const [coin, assets] of this.marketAssetIds.entries()) {
+      if (assets.assetId1 === assetId || assets.assetId2 === assetId) {
+        return coin;
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Milliseconds since the book for an asset was last confirmed current (Infinity if never received)
+   */
+  getBookAge(assetId: string): number {
+    return this.ws ? this.ws.getBookAge(assetId) : Infinity;
+  }
+
   stop(): void {
     if (this.ws) {
       this.ws.disconnect();
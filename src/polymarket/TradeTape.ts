@@ -0,0 +1,75 @@
+// ============================================================================
+// TRADE TAPE (src/polymarket/TradeTape.ts)
+// ============================================================================
+
+import { TapeTrade, TradeStats } from '../types';
+import { Clock, systemClock } from '../utils/clock';
+
+/**
+ * Rolling per-asset record of Polymarket trades, fed by last_trade_price events
+ */
+export class TradeTape {
+  private tradesByAsset: Map<string, TapeTrade[]> = new Map();
+  private readonly windowMs: number;
+  private readonly clock: Clock;
+
+  constructor(windowMs: number, clock: Clock = systemClock) {
+    this.windowMs = windowMs;
+    this.clock = clock;
+  }
+
+  record(trade: TapeTrade): void {
+    if (!this.tradesByAsset.has(trade.assetId)) {
+      this.tradesByAsset.set(trade.assetId, []);
+    }
+    this.tradesByAsset.get(trade.assetId)!.push(trade);
+    this.prune(trade.assetId);
+  }
+
+  getStats(assetId: string): TradeStats {
+    this.prune(assetId);
+    const trades = this.tradesByAsset.get(assetId) || [];
+
+    let volume = 0;
+    let buyVolume = 0;
+    let notional = 0;
+
+    for (const trade of trades) {
+      volume += trade.size;
+      notional += trade.price * trade.size;
+      if (trade.side === 'BUY') buyVolume += trade.size;
+    }
+
+    const last = trades[trades.length - 1];
+
+    return {
+      assetId,
+      windowMs: this.windowMs,
+      tradeCount: trades.length,
+      volume,
+      buyVolume,
+      sellVolume: volume - buyVolume,
+      buyRatio: volume > 0 ? buyVolume / volume : 0.5,
+      vwap: volume > 0 ? notional / volume : 0,
+      lastTradePrice: last?.price,
+      msSinceLastTrade: last ? this.clock.now() - last.timestamp : Infinity,
+    };
+  }
+
+  clear(assetId: string): void {
+    this.tradesByAsset.delete(assetId);
+  }
+
+  /**
+   * Drop trades that fell out of the rolling window
+   */
+  private prune(assetId: string): void {
+    const trades = this.tradesByAsset.get(assetId);
+    if (!trades) return;
+
+    const cutoff = this.clock.now() - this.windowMs;
+    while (trades.length > 0 && trades[0].timestamp < cutoff) {
+      trades.shift();
+    }
+  }
+}
@@ -62,5 +62,119 @@ interface BookMessage {
     event_type: 'book';
 }
 
+interface PriceChange {
+    asset_id: string;
+    price: string;
+    size: string;
+    side: 'BUY' | 'SELL';
+    hash?: string;
+    best_bid?: string;
+    best_ask?: string;
+}
+
+interface PriceChangeMessage {
+    market: string;
+    asset_id?: string;               // legacy shape: single asset with `changes`
+    changes?: Omit<PriceChange, 'asset_id'>[];
+    price_changes?: PriceChange[];   // current shape: one entry per asset/level
+    hash?: string;
+    timestamp: string;
+    event_type: 'price_change';
+}
+
+interface TickSizeChangeMessage {
+    market: string;
+    asset_id: string;
+    old_tick_size: string;
+    new_tick_size: string;
+    timestamp: string;
+    event_type: 'tick_size_change';
+}
+
+interface LastTradePriceMessage {
+    market: string;
+    asset_id: string;
+    price: string;
+    size: string;
+    side: 'BUY' | 'SELL';
+    fee_rate_bps: string;
+    timestamp: string;
+    event_type: 'last_trade_price';
+}
+
+interface UserMakerOrder {
+    order_id: string;
+    owner: string;
+    matched_amount: string;
+    price: string;
+    asset_id: string;
+    outcome: string;
+}
+
+interface UserTradeMessage {
+    id: string;
+    taker_order_id: string;
+    market: string;
+    asset_id: string;
+    side: 'BUY' | 'SELL';
+    size: string;
+    price: string;
+    status: 'MATCHED' | 'MINED' | 'CONFIRMED' | 'RETRYING' | 'FAILED';
+    outcome: string;
+    owner: string;
+    trade_owner?: string;
+    maker_orders: UserMakerOrder[];
+    matchtime?: string;
+    timestamp: string;
+    event_type: 'trade';
+}
+
+interface UserOrderMessage {
+    id: string;
+    owner: string;
+    market: string;
+    asset_id: string;
+    side: 'BUY' | 'SELL';
+    original_size: string;
+    size_matched: string;
+    price: string;
+    outcome: string;
+    type: 'PLACEMENT' | 'UPDATE' | 'CANCELLATION';
+    associate_trades?: string[];
+    timestamp: string;
+    event_type: 'order';
+}
+
+interface PriceLevel {
+    price: number;
+    size: number;
+}
+
+interface LocalOrderBook {
+    assetId: string;
+    market: string;
+    bids: PriceLevel[];         // sorted best (highest) first
+    asks: PriceLevel[];         // sorted best (lowest) first
+    hash: string;
+    timestamp: number;          // exchange timestamp of the last applied event
+    receivedAt: number;         // local time the last event was applied
+    tickSize?: number;
+    lastTradePrice?: number;
+    deltasSinceSnapshot: number;
+    inSync: boolean;            // false once a delta disagrees with the exchange's best bid/ask
+}
 
-export { Market, OrderBookEntry, BookMessage };
\ No newline at end of file
+export {
+    Market,
+    OrderBookEntry,
+    BookMessage,
+    PriceChange,
+    PriceChangeMessage,
+    TickSizeChangeMessage,
+    LastTradePriceMessage,
+    UserMakerOrder,
+    UserTradeMessage,
+    UserOrderMessage,
+    PriceLevel,
+    LocalOrderBook,
+};
\ No newline at end of file
@@ -0,0 +1,186 @@
+import WebSocket from 'ws';
+import { EventEmitter } from 'events';
+import { UserOrderMessage, UserTradeMessage } from './types';
+import { BotConfig } from '../config';
+import { backoffDelay } from '../utils/helpers';
+
+type UserChannelMessage = UserOrderMessage | UserTradeMessage;
+
+/**
+ * Authenticated Polymarket `user` channel.
+ *
+ * Streams our own order updates and trades so executions can be confirmed as
+ * they happen. Emits typed `order` and `trade` events.
+ */
+export class PolymarketUserWebSocket extends EventEmitter {
+  private ws: WebSocket | null = null;
+  private readonly wsUrl: string;
+  private readonly auth: { apiKey: string; secret: string; passphrase: string };
+  private markets: Set<string> = new Set();
+  private running = false;
+  private reconnectAttempts = 0;
+  private readonly reconnect: BotConfig['reconnect'];
+  private pingInterval: NodeJS.Timeout | null = null;
+  private readonly pingIntervalMs = 10000;
+
+  constructor(config: BotConfig) {
+    super();
+    this.wsUrl = config.polymarket.userWsUrl;
+    this.auth = {
+      apiKey: config.polymarket.apiKey,
+      secret: config.polymarket.apiSecret,
+      passphrase: config.polymarket.apiPassphrase,
+    };
+    this.reconnect = config.reconnect;
+  }
+
+  /**
+   * Open the channel (idempotent)
+   */
+  public connect(): void {
+    this.running = true;
+
+    if (!this.ws || this.ws.readyState === WebSocket.CLOSED) {
+      this.establishConnection();
+    }
+  }
+
+  /**
+   * Replace the set of markets (condition IDs) we receive events for
+   */
+  public setMarkets(conditionIds: string[]): void {
+    this.markets = new Set(conditionIds);
+
+    if (this.ws?.readyState === WebSocket.OPEN) {
+      this.subscribe();
+    }
+  }
+
+  private establishConnection(): void {
+    try {
+      this.ws = new WebSocket(this.wsUrl);
+
+      this.ws.on('open', () => {
+        console.log('✅ Polymarket user channel connected');
+        this.reconnectAttempts = 0;
+        this.subscribe();
+        this.startPingInterval();
+        this.emit('connected');
+      });
+
+      this.ws.on('message', (data: WebSocket.Data) => {
+        this.handleMessage(data);
+      });
+
+      this.ws.on('close', (code: number, reason: Buffer) => {
+        console.log(`⚠️ Polymarket user channel closed: ${code} - ${reason.toString()}`);
+        this.handleClose();
+      });
+
+      this.ws.on('error', (error: Error) => {
+        console.error('❌ Polymarket user channel error:', error);
+      });
+    } catch (error) {
+      console.error('Failed to create user channel connection:', error);
+      this.handleClose();
+    }
+  }
+
+  /**
+   * Authenticate and subscribe in a single message
+   */
+  private subscribe(): void {
+    if (!this.ws || this.ws.readyState !== WebSocket.OPEN) return;
+
+    const subscriptionMessage = {
+      auth: this.auth,
+      markets: Array.from(this.markets),
+      type: 'user',
+    };
+
+    console.log(`📡 Subscribing user channel to ${this.markets.size} markets`);
+    this.ws.send(JSON.stringify(subscriptionMessage));
+  }
+
+  private handleMessage(data: WebSocket.Data): void {
+    try {
+      const text = data.toString();
+
+      // PONG replies and plain text errors
+      if (!text.startsWith('{') && !text.startsWith('[')) {
+        return;
+      }
+
+      const parsed = JSON.parse(text);
+      const messages: UserChannelMessage[] = Array.isArray(parsed) ? parsed : [parsed];
+
+      for (const message of messages) {
+        switch (message.event_type) {
+          case 'order':
+            this.emit('order', message);
+            break;
+          case 'trade':
+            this.emit('trade', message);
+            break;
+          default:
+            break;
+        }
+      }
+    } catch (error) {
+      console.error('Error parsing user channel message:', error);
+    }
+  }
+
+  private startPingInterval(): void {
+    if (this.pingInterval) {
+      clearInterval(this.pingInterval);
+    }
+
+    this.pingInterval = setInterval(() => {
+      if (this.ws?.readyState === WebSocket.OPEN) {
+        this.ws.send('PING');
+      }
+    }, this.pingIntervalMs);
+  }
+
+  private handleClose(): void {
+    this.cleanup();
+    this.emit('disconnected');
+
+    if (!this.running) return;
+
+    // Fills are confirmed over this channel, so never stop trying
+    this.reconnectAttempts++;
+    const delay = backoffDelay(this.reconnectAttempts, this.reconnect.baseDelayMs, this.reconnect.maxDelayMs);
+    console.log(`Attempting to reconnect user channel (attempt ${this.reconnectAttempts}) in ${delay}ms...`);
+
+    setTimeout(() => {
+      if (this.running) this.establishConnection();
+    }, delay);
+  }
+
+  private cleanup(): void {
+    if (this.pingInterval) {
+      clearInterval(this.pingInterval);
+      this.pingInterval = null;
+    }
+
+    if (this.ws) {
+      this.ws.removeAllListeners();
+      if (this.ws.readyState === WebSocket.OPEN || this.ws.readyState === WebSocket.CONNECTING) {
+        this.ws.close();
+      }
+      this.ws = null;
+    }
+  }
+
+  public isConnected(): boolean {
+    return this.ws?.readyState === WebSocket.OPEN;
+  }
+
+  public disconnect(): void {
+    console.log('Disconnecting Polymarket user channel');
+    this.running = false;
+    this.cleanup();
+  }
+}
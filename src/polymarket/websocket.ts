@@ -1,30 +1,55 @@
 import WebSocket from 'ws';
-import { BookMessage } from './types';
+import { EventEmitter } from 'events';
+import {
+  BookMessage,
+  LastTradePriceMessage,
+  LocalOrderBook,
+  OrderBookEntry,
+  PriceChange,
+  PriceChangeMessage,
+  PriceLevel,
+  TickSizeChangeMessage,
+} from './types';
 import { config } from '../config';
+import { Clock, systemClock } from '../utils/clock';
+import { backoffDelay } from '../utils/helpers';
 
-type PolymarketMessage = BookMessage;
+type PolymarketMessage = BookMessage | PriceChangeMessage | TickSizeChangeMessage | LastTradePriceMessage;
 
-export class PolymarketWebSocket {
+export class PolymarketWebSocket extends EventEmitter {
   private ws: WebSocket | null = null;
   private readonly wsUrl = config.polymarket.wsUrl;
   private allSubscribedAssets: Set<string> = new Set();
   private reconnectAttempts = 0;
-  private readonly maxReconnectAttempts = 5;
-  private readonly reconnectDelay = 5000;
+  private autoReconnect = true;
   private pingInterval: NodeJS.Timeout | null = null;
   private readonly pingIntervalMs = 30000;
-  private lastMessageTime = Date.now();
+  private lastMessageTime: number;
+  private readonly clock: Clock;
+  private readonly replay: boolean;
 
-  // Store latest data - keyed by assetId
-  private latestBookByAssetId: Map<string, { bestBid: string, bestAsk: string }> = new Map();
+  // Store latest full-depth book - keyed by assetId
+  private latestBookByAssetId: Map<string, LocalOrderBook> = new Map();
 
   // Track pending subscriptions waiting for first data
   private pendingDataPromises: Map<string, { resolve: () => void, reject: (reason?: any) => void }[]> = new Map();
 
+  /**
+   * In replay mode no socket is opened; messages arrive through ingest()
+   */
+  constructor(clock: Clock = systemClock, replay: boolean = false) {
+    super();
+    this.clock = clock;
+    this.replay = replay;
+    this.lastMessageTime = clock.now();
+  }
+
   /**
    * Connect to WebSocket and subscribe to assets
    */
   public connect(assetIds: string[], replaceExisting: boolean = false): void {
+    this.autoReconnect = true;
+
     // If replacing, clear existing assets first
     if (replaceExisting) {
       console.log(`🔄 Replacing ${this.allSubscribedAssets.size} existing assets with ${assetIds.length} new assets`);
@@ -60,6 +85,8 @@ export class PolymarketWebSocket {
    * Establish WebSocket connection
    */
   private establishConnection(): void {
+    if (this.replay) return;
+
     try {
       this.ws = new WebSocket(this.wsUrl);
 
@@ -87,7 +114,7 @@ export class PolymarketWebSocket {
       });
 
       this.ws.on('pong', () => {
-        this.lastMessageTime = Date.now();
+        this.lastMessageTime = this.clock.now();
       });
     } catch (error) {
       console.error('Failed to create WebSocket connection:', error);
@@ -145,7 +172,7 @@ export class PolymarketWebSocket {
           this.pendingDataPromises.get(assetId)!.push({ resolve, reject });
 
           // Set timeout
-          setTimeout(() => {
+          this.clock.setTimeout(() => {
             reject(new Error(`Timeout waiting for orderbook data for asset ${assetId.slice(0, 8)}...`));
           }, timeoutMs);
         });
@@ -188,24 +215,38 @@ export class PolymarketWebSocket {
    * Handle incoming WebSocket messages
    */
   private handleMessage(data: WebSocket.Data): void {
-    this.lastMessageTime = Date.now();
+    this.lastMessageTime = this.clock.now();
 
     try {
       const text = data.toString();
+      this.emit('raw', text);
 
       // Polymarket sometimes sends plain text errors
-      if (!text.startsWith("{")) {
+      if (!text.startsWith("{") && !text.startsWith("[")) {
         return;
       }
 
-      const message: PolymarketMessage = JSON.parse(text);
-
-      switch (message.event_type) {
-        case 'book':
-          this.handleBookMessage(message);
-          break;
-        default:
-          break;
+      // Initial snapshots arrive batched in an array
+      const parsed = JSON.parse(text);
+      const messages: PolymarketMessage[] = Array.isArray(parsed) ? parsed : [parsed];
+
+      for (const message of messages) {
+        switch (message.event_type) {
+          case 'book':
+            this.handleBookMessage(message);
+            break;
+          case 'price_change':
+            this.handlePriceChangeMessage(message);
+            break;
+          case 'tick_size_change':
+            this.handleTickSizeChangeMessage(message);
+            break;
+          case 'last_trade_price':
+            this.handleLastTradePriceMessage(message);
+            break;
+          default:
+            break;
+        }
       }
     } catch (error) {
       console.error('Error parsing WebSocket message:', error);
@@ -216,18 +257,44 @@ export class PolymarketWebSocket {
    * Handle order book updates
    */
   private handleBookMessage(message: BookMessage): void {
-    // Extract best bid and ask
-    const bestBid = message.bids[message.bids.length - 1]?.price || '0';
-    const bestAsk = message.asks[message.asks.length - 1]?.price || '0';
+    // Polymarket sends bids ascending and asks descending - normalize to best-first
+    const bids = this.parseLevels(message.bids).sort((a, b) => b.price - a.price);
+    const asks = this.parseLevels(message.asks).sort((a, b) => a.price - b.price);
+
+    const bestBid = bids[0]?.price ?? 0;
+    const bestAsk = asks[0]?.price ?? 0;
 
     const assetId = message.asset_id;
-    const isFirstData = !this.latestBookByAssetId.has(assetId);
+    const previous = this.latestBookByAssetId.get(assetId);
+    const isFirstData = !previous;
+
+    // Compare the delta-maintained book against the fresh snapshot
+    if (previous && previous.deltasSinceSnapshot > 0 && previous.hash !== message.hash) {
+      if (!this.levelsMatch(previous.bids, bids) || !this.levelsMatch(previous.asks, asks)) {
+        console.warn(`⚠️ Local book for ${assetId.slice(0, 8)}... drifted from snapshot after ${previous.deltasSinceSnapshot} deltas - resynced`);
+        this.emit('desync', assetId);
+      }
+    }
 
     // Store by assetId
-    this.latestBookByAssetId.set(assetId, {
-      bestBid,
-      bestAsk
-    });
+    const book: LocalOrderBook = {
+      assetId,
+      market: message.market,
+      bids,
+      asks,
+      hash: message.hash,
+      timestamp: parseInt(message.timestamp) || this.clock.now(),
+      receivedAt: this.clock.now(),
+      tickSize: previous?.tickSize,
+      lastTradePrice: previous?.lastTradePrice,
+      deltasSinceSnapshot: 0,
+      inSync: true,
+    };
+    this.latestBookByAssetId.set(assetId, book);
+
+    // Forward the raw snapshot and the maintained book to listeners
+    this.emit('book', message);
+    this.emit('book_update', book);
 
     // If this is the first data for this asset, resolve any pending promises
     if (isFirstData && this.pendingDataPromises.has(assetId)) {
@@ -239,6 +306,118 @@ export class PolymarketWebSocket {
     }
   }
 
+  /**
+   * Apply incremental level updates to the locally maintained books
+   */
+  private handlePriceChangeMessage(message: PriceChangeMessage): void {
+    const changes: PriceChange[] = message.price_changes
+      ?? (message.changes || []).map(change => ({ ...change, asset_id: message.asset_id!, hash: message.hash }));
+
+    const timestamp = parseInt(message.timestamp) || this.clock.now();
+    const touched = new Set<string>();
+
+    for (const change of changes) {
+      const book = this.latestBookByAssetId.get(change.asset_id);
+
+      // Deltas are meaningless without a base snapshot, and stale ones must not rewind the book
+      if (!book || timestamp < book.timestamp) continue;
+
+      const levels = change.side === 'BUY' ? book.bids : book.asks;
+      const price = parseFloat(change.price);
+      const size = parseFloat(change.size);
+      const index = levels.findIndex(level => this.samePrice(level.price, price));
+
+      if (size <= 0) {
+        if (index !== -1) levels.splice(index, 1);
+      } else if (index !== -1) {
+        levels[index].size = size;
+      } else {
+        levels.push({ price, size });
+        levels.sort((a, b) => change.side === 'BUY' ? b.price - a.price : a.price - b.price);
+      }
+
+      book.timestamp = timestamp;
+      book.receivedAt = this.clock.now();
+      book.deltasSinceSnapshot++;
+      if (change.hash) book.hash = change.hash;
+
+      // The exchange reports its own top of book alongside each change - use it as a checksum
+      if (change.best_bid !== undefined && change.best_ask !== undefined) {
+        const matches = this.samePrice(book.bids[0]?.price ?? 0, parseFloat(change.best_bid))
+          && this.samePrice(book.asks[0]?.price ?? 0, parseFloat(change.best_ask));
+
+        if (!matches && book.inSync) {
+          console.warn(`⚠️ Local book for ${change.asset_id.slice(0, 8)}... out of sync (local ${book.bids[0]?.price ?? 0}/${book.asks[0]?.price ?? 0}, exchange ${change.best_bid}/${change.best_ask})`);
+          this.emit('desync', change.asset_id);
+        }
+        book.inSync = matches;
+      }
+
+      touched.add(change.asset_id);
+    }
+
+    for (const assetId of touched) {
+      this.emit('book_update', this.latestBookByAssetId.get(assetId));
+    }
+  }
+
+  /**
+   * Record tick size changes so prices can be rounded correctly
+   */
+  private handleTickSizeChangeMessage(message: TickSizeChangeMessage): void {
+    const book = this.latestBookByAssetId.get(message.asset_id);
+    if (!book) return;
+
+    book.tickSize = parseFloat(message.new_tick_size);
+    book.receivedAt = this.clock.now();
+    console.log(`📏 Tick size for ${message.asset_id.slice(0, 8)}... changed ${message.old_tick_size} → ${message.new_tick_size}`);
+  }
+
+  /**
+   * Record the last traded price for an asset
+   */
+  private handleLastTradePriceMessage(message: LastTradePriceMessage): void {
+    const book = this.latestBookByAssetId.get(message.asset_id);
+    if (book) {
+      book.lastTradePrice = parseFloat(message.price);
+      book.receivedAt = this.clock.now();
+    }
+
+    this.emit('last_trade_price', message);
+  }
+
+  private samePrice(a: number, b: number): boolean {
+    return Math.abs(a - b) < 1e-9;
+  }
+
+  private levelsMatch(a: PriceLevel[], b: PriceLevel[]): boolean {
+    if (a.length !== b.length) return false;
+    return a.every((level, i) => this.samePrice(level.price, b[i].price) && Math.abs(level.size - b[i].size) < 1e-6);
+  }
+
+  /**
+   * Milliseconds since the local book for an asset was last confirmed current
+   * (Infinity if unknown). A quiet book stays current while the feed it comes
+   * from is still delivering messages or pongs.
+   */
+  public getBookAge(assetId: string): number {
+    const book = this.latestBookByAssetId.get(assetId);
+    if (!book) return Infinity;
+
+    const feedAlive = this.replay || this.isConnected();
+    const lastHeard = feedAlive ? Math.max(book.receivedAt, this.lastMessageTime) : book.receivedAt;
+    return this.clock.now() - lastHeard;
+  }
+
+  /**
+   * Convert raw string levels to numbers, dropping empty levels
+   */
+  private parseLevels(levels: OrderBookEntry[]): PriceLevel[] {
+    return levels
+      .map(level => ({ price: parseFloat(level.price), size: parseFloat(level.size) }))
+      .filter(level => level.size > 0 && !isNaN(level.price));
+  }
+
   /**
    * Start the ping interval to keep the connection alive
    */
@@ -273,16 +452,15 @@ export class PolymarketWebSocket {
     });
     this.pendingDataPromises.clear();
 
-    // Attempt reconnection if we have subscribed assets
-    if (this.allSubscribedAssets.size > 0 && this.reconnectAttempts < this.maxReconnectAttempts) {
+    // Keep retrying while we have subscribed assets - books go stale until we're back
+    if (this.allSubscribedAssets.size > 0 && this.autoReconnect) {
       this.reconnectAttempts++;
-      console.log(`Attempting to reconnect (${this.reconnectAttempts}/${this.maxReconnectAttempts})...`);
+      const delay = backoffDelay(this.reconnectAttempts, config.reconnect.baseDelayMs, config.reconnect.maxDelayMs);
+      console.log(`Attempting to reconnect (attempt ${this.reconnectAttempts}) in ${delay}ms...`);
 
       setTimeout(() => {
-        this.establishConnection();
-      }, this.reconnectDelay);
-    } else if (this.reconnectAttempts >= this.maxReconnectAttempts) {
-      console.error('Max reconnection attempts reached');
+        if (this.autoReconnect && !this.ws) this.establishConnection();
+      }, delay);
     }
   }
 
@@ -304,10 +482,17 @@ export class PolymarketWebSocket {
     }
   }
 
+  /**
+   * Feed a raw market channel payload (e.g. from a recording) through the normal message path
+   */
+  public ingest(data: string): void {
+    this.handleMessage(data);
+  }
+
   /**
    * Get the latest order book data for a specific assetId
    */
-  public getLatestBookByAssetId(assetId: string): { bestBid: string, bestAsk: string } | undefined {
+  public getLatestBookByAssetId(assetId: string): LocalOrderBook | undefined {
     return this.latestBookByAssetId.get(assetId);
   }
 
@@ -324,7 +509,7 @@ export class PolymarketWebSocket {
   public disconnect(): void {
     console.log('Disconnecting Polymarket WebSocket');
     this.allSubscribedAssets.clear();
-    this.reconnectAttempts = this.maxReconnectAttempts;
+    this.autoReconnect = false;
     this.cleanup();
   }
 
@@ -337,7 +522,7 @@ export class PolymarketWebSocket {
     
     // Step 1: Disconnect current connection
     console.log('📡 Disconnecting current WebSocket...');
-    this.reconnectAttempts = this.maxReconnectAttempts; // Prevent auto-reconnect
+    this.autoReconnect = false; // Prevent auto-reconnect
     this.cleanup();
     
     // Step 2: Clear all old data
@@ -358,6 +543,7 @@ export class PolymarketWebSocket {
     
     // Step 5: Reset reconnect attempts and establish new connection
     this.reconnectAttempts = 0;
+    this.autoReconnect = true;
     this.establishConnection();
     
     // Step 6: Wait for connection to be established
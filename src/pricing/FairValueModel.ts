@@ -0,0 +1,63 @@
+// ============================================================================
+// FAIR VALUE MODEL (src/pricing/FairValueModel.ts)
+// ============================================================================
+
+import { BotConfig } from "../config";
+import { FairValue } from "../types";
+
+/**
+ * Prices the hourly up/down tokens as digital options on the Binance close.
+ *
+ * The price is treated as driftless geometric Brownian motion with the
+ * realized 1-minute volatility, so
+ *
+ *   P(close >= open) = N( ln(S/K) / (σ√τ) - σ√τ/2 )
+ *
+ * with S the current price, K the hour open, σ the per-minute volatility and
+ * τ the minutes left. UP pays on close >= open, DOWN on the rest.
+ */
+export class FairValueModel {
+  private config: BotConfig;
+
+  constructor(config: BotConfig) {
+    this.config = config;
+  }
+
+  price(
+    price: number,
+    hourOpen: number,
+    volatility: number,
+    marketEndTime: number,
+    now: number
+  ): FairValue {
+    const minutesRemaining = Math.max(0, (marketEndTime - now) / 60000);
+    const sigma = Math.max(volatility, this.config.pricing.minVolatilityPerMinute);
+
+    let up: number;
+    if (minutesRemaining === 0 || price <= 0 || hourOpen <= 0) {
+      up = price >= hourOpen ? 1 : 0;
+    } else {
+      const stdDev = sigma * Math.sqrt(minutesRemaining);
+      up = normalCdf(Math.log(price / hourOpen) / stdDev - stdDev / 2);
+    }
+
+    return {
+      up,
+      down: 1 - up,
+      volatility: sigma,
+      minutesRemaining,
+    };
+  }
+}
+
+/**
+ * Standard normal CDF (Abramowitz & Stegun 7.1.26, error < 1.5e-7)
+ */
+function normalCdf(x: number): number {
+  const z = Math.abs(x) / Math.SQRT2;
+  const t = 1 / (1 + 0.3275911 * z);
+  const poly = t * (0.254829592 + t * (-0.284496736 + t * (1.421413741 + t * (-1.453152027 + t * 1.061405429))));
+  const erf = 1 - poly * Math.exp(-z * z);
+
+  return x >= 0 ? (1 + erf) / 2 : (1 - erf) / 2;
+}
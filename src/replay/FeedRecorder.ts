@@ -0,0 +1,65 @@
+// ============================================================================
+// FEED RECORDER (src/replay/FeedRecorder.ts)
+// ============================================================================
+
+import fs from 'fs';
+import path from 'path';
+import zlib from 'zlib';
+
+export type FeedSource = 'binance' | 'polymarket';
+
+export interface RecordedMessage {
+  t: number;          // local receive time (ms)
+  src: FeedSource;
+  data: string;       // raw websocket payload
+}
+
+/**
+ * Writes every raw websocket message to gzip-compressed NDJSON, one file per
+ * UTC hour (`feeds_2026-01-16T14.ndjson.gz`), so a single trading hour can be
+ * replayed on its own.
+ */
+export class FeedRecorder {
+  private dir: string;
+  private currentHour: string | null = null;
+  private gzip: zlib.Gzip | null = null;
+
+  constructor(dir: string) {
+    this.dir = dir;
+    fs.mkdirSync(dir, { recursive: true });
+  }
+
+  record(src: FeedSource, data: string, receivedAt: number): void {
+    const hour = new Date(receivedAt).toISOString().slice(0, 13);
+    if (hour !== this.currentHour) {
+      this.rotate(hour);
+    }
+
+    const line: RecordedMessage = { t: receivedAt, src, data };
+    this.gzip!.write(JSON.stringify(line) + '\n');
+  }
+
+  private rotate(hour: string): void {
+    this.closeCurrent();
+
+    const file = path.join(this.dir, `feeds_${hour}.ndjson.gz`);
+    console.log(`🎙️ Recording feeds to ${file}`);
+
+    this.gzip = zlib.createGzip();
+    // Append so a restart within the hour adds a new gzip member instead of truncating
+    this.gzip.pipe(fs.createWriteStream(file, { flags: 'a' }));
+    this.currentHour = hour;
+  }
+
+  private closeCurrent(): void {
+    if (this.gzip) {
+      this.gzip.end();
+      this.gzip = null;
+    }
+  }
+
+  close(): void {
+    this.closeCurrent();
+    this.currentHour = null;
+  }
+}
@@ -0,0 +1,92 @@
+// ============================================================================
+// FEED REPLAYER (src/replay/FeedReplayer.ts)
+// ============================================================================
+
+import fs from 'fs';
+import readline from 'readline';
+import zlib from 'zlib';
+import { BinanceWebSocketDataProvider } from "../data/WebSocketDataProvider";
+import { PolymarketClient } from "../polymarket/PolymarketClient";
+import { VirtualClock } from "../utils/clock";
+import { RecordedMessage } from "./FeedRecorder";
+
+/**
+ * Feeds a recording made by FeedRecorder back into the data providers.
+ *
+ * Before each message the virtual clock is advanced to its receive time, so
+ * every timer (rebalancing ticks, market refresh, timeouts) fires between the
+ * same messages it did live.
+ */
+export class FeedReplayer {
+  private clock: VirtualClock;
+  private binance: BinanceWebSocketDataProvider;
+  private polymarket: PolymarketClient;
+  private stopped: boolean = false;
+
+  constructor(clock: VirtualClock, binance: BinanceWebSocketDataProvider, polymarket: PolymarketClient) {
+    this.clock = clock;
+    this.binance = binance;
+    this.polymarket = polymarket;
+  }
+
+  /**
+   * Receive time of the first message in a recording (used to start the virtual clock)
+   */
+  static async firstTimestamp(file: string): Promise<number | null> {
+    for await (const message of FeedReplayer.read(file)) {
+      return message.t;
+    }
+    return null;
+  }
+
+  /**
+   * Replay every message in `file`. With `speed` set, wall-clock pacing is
+   * (recorded gap / speed); otherwise messages are fed as fast as possible.
+   */
+  async run(file: string, speed?: number): Promise<number> {
+    let count = 0;
+    let previous: number | null = null;
+
+    console.log(`▶️ Replaying ${file}`);
+
+    for await (const message of FeedReplayer.read(file)) {
+      if (this.stopped) break;
+
+      if (speed && previous !== null && message.t > previous) {
+        await new Promise(resolve => setTimeout(resolve, (message.t - previous!) / speed));
+      }
+      previous = message.t;
+
+      await this.clock.advanceTo(message.t);
+
+      if (message.src === 'binance') {
+        this.binance.ingest(message.data);
+      } else {
+        this.polymarket.ingestMarketMessage(message.data);
+      }
+      count++;
+    }
+
+    console.log(`⏹️ Replay finished: ${count} messages`);
+    return count;
+  }
+
+  stop(): void {
+    this.stopped = true;
+  }
+
+  private static async *read(file: string): AsyncGenerator<RecordedMessage> {
+    const input = fs.createReadStream(file).pipe(zlib.createGunzip());
+    const lines = readline.createInterface({ input, crlfDelay: Infinity });
+
+    try {
+      for await (const line of lines) {
+        if (!line.trim()) continue;
+        yield JSON.parse(line) as RecordedMessage;
+      }
+    } finally {
+      lines.close();
+      input.destroy();
+    }
+  }
+}
@@ -0,0 +1,61 @@
+// ============================================================================
+// REPLAY ENTRY POINT (src/replay/run.ts)
+// ============================================================================
+//
+// npm run replay -- --file recordings/feeds_2026-01-16T14.ndjson.gz [--speed 20]
+//
+// Runs the bot in paper mode against a recorded hour. --speed paces replay
+// relative to wall-clock time (0 = as fast as possible); pick a speed that
+// leaves each tick enough real time for its database round-trips.
+
+import { BotConfig, config } from "../config";
+import { TradingBot } from "../core/TradingBot";
+import { VirtualClock } from "../utils/clock";
+import { FeedReplayer } from "./FeedReplayer";
+
+function parseArgs(argv: string[]): Record<string, string> {
+  const args: Record<string, string> = {};
+  for (let i = 0; i < argv.length; i++) {
+    if (argv[i].startsWith('--') && i + 1 < argv.length) {
+      args[argv[i].slice(2)] = argv[++i];
+    }
+  }
+  return args;
+}
+
+async function main() {
+  const args = parseArgs(process.argv.slice(2));
+  const file = args.file || config.feeds.replayFile;
+  if (!file) {
+    throw new Error('No recording given: pass --file or set REPLAY_FILE');
+  }
+
+  const startTime = await FeedReplayer.firstTimestamp(file);
+  if (startTime === null) {
+    throw new Error(`Recording ${file} is empty`);
+  }
+
+  const replayConfig: BotConfig = {
+    ...config,
+    feeds: { ...config.feeds, record: false, replayFile: file },
+    execution: { ...config.execution, mode: 'paper' },
+  };
+
+  const clock = new VirtualClock(startTime);
+  const bot = new TradingBot(replayConfig, clock);
+  const replayer = bot.createReplayer();
+
+  console.log(`⏪ Replaying from ${new Date(startTime).toISOString()}`);
+
+  // The bot waits on replayed books and virtual sleeps, so both run side by side
+  const started = bot.start();
+  await replayer.run(file, args.speed !== undefined ? parseFloat(args.speed) : 10);
+
+  await started.catch(error => console.error('❌ Bot failed during replay:', error));
+  await bot.stop();
+}
+
+main().catch(error => {
+  console.error('❌ Replay failed:', error);
+  process.exit(1);
+});
@@ -3,24 +3,30 @@
 // ============================================================================
 
 import { TradingBot } from "./core/TradingBot";
+import { ApiServer } from "./api/ApiServer";
 import { config } from "./config";
 
 async function main() {
   const bot = new TradingBot(config);
+  const api = config.api.enabled ? new ApiServer(bot, config.api) : null;
 
   // Graceful shutdown
   process.on('SIGINT', () => {
     console.log('\n\n⚠️ Shutting down gracefully...');
+    api?.stop();
     bot.stop();
     process.exit(0);
   });
 
   process.on('SIGTERM', () => {
+    api?.stop();
     bot.stop();
     process.exit(0);
   });
 
   try {
+    // Up before the bot so the dashboard can watch it start
+    await api?.start();
     await bot.start();
   } catch (error) {
     console.error('❌ Fatal error:', error);
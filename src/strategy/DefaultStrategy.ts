@@ -0,0 +1,112 @@
+// ============================================================================
+// DEFAULT STRATEGY (src/strategy/DefaultStrategy.ts)
+// ============================================================================
+
+import { BotConfig } from '../config';
+import { StrategyContext, TradeIntent } from '../types';
+import { PredictionEngine } from './PredictionEngine';
+import { RebalancingEngine } from './RebalancingEngine';
+import { Strategy } from './Strategy';
+
+/**
+ * PredictionEngine entry followed by RebalancingEngine-driven hedging:
+ * buy the predicted side when the signal is confident enough, then buy the
+ * other side when it gets cheap until both balances match.
+ */
+export class DefaultStrategy implements Strategy {
+  readonly name = 'default';
+  private config: BotConfig;
+  private predictor: PredictionEngine;
+  private engine: RebalancingEngine;
+
+  constructor(config: BotConfig) {
+    this.config = config;
+    this.predictor = new PredictionEngine();
+    this.engine = new RebalancingEngine(config.rebalancing);
+  }
+
+  onMarketOpen(context: StrategyContext): TradeIntent[] {
+    const { upBook, downBook } = context;
+    const orderFlow = upBook.tradeStats && downBook.tradeStats
+      ? { up: upBook.tradeStats, down: downBook.tradeStats }
+      : undefined;
+
+    const signal = this.predictor.predict(context.marketData, orderFlow);
+
+    if (signal.direction === 'SKIP' || signal.confidence < this.config.trading.minConfidence) {
+      console.log(`   🔮 ${context.coin}: ${signal.direction} @ ${signal.confidence}% (min ${this.config.trading.minConfidence}%) - no entry`);
+      signal.reasons.forEach(reason => console.log(`      - ${reason}`));
+      return [];
+    }
+
+    const side = signal.direction;
+    const price = side === 'UP' ? upBook.bestAsk : downBook.bestAsk;
+
+    return [{
+      action: 'BUY',
+      side,
+      shares: Math.floor(this.config.trading.maxPositionSizeUSDC / price),
+      price,
+      reason: `Initial position entry (${signal.confidence}% confidence)`,
+      confidence: signal.confidence,
+      reasons: signal.reasons,
+    }];
+  }
+
+  onTick(context: StrategyContext): TradeIntent[] {
+    const { position, marketData, upBook, downBook } = context;
+    if (!position) return [];
+
+    const closeEarly = this.engine.shouldCloseEarly(
+      position,
+      marketData,
+      upBook,
+      downBook,
+      context.minutesRemaining,
+      this.config.trading.exitLossPct
+    );
+
+    if (closeEarly) {
+      return this.exitIntents(context);
+    }
+
+    const decision = this.engine.evaluateRebalancing(position, marketData, upBook, downBook);
+
+    if (!decision.shouldRebalance || !decision.action || !decision.shares || !decision.targetPrice) {
+      return [];
+    }
+
+    return [{
+      action: decision.action.startsWith('SELL') ? 'SELL' : 'BUY',
+      side: decision.action.includes('UP') ? 'UP' : 'DOWN',
+      shares: decision.shares,
+      price: decision.targetPrice,
+      reason: decision.reason,
+    }];
+  }
+
+  /**
+   * Sell every held share at the bid
+   */
+  private exitIntents(context: StrategyContext): TradeIntent[] {
+    const { position, upBook, downBook } = context;
+    const balanced = (position!.upBalance || 0) === (position!.downBalance || 0);
+    const reason = balanced ? 'Early exit: profit locked' : 'Early exit: stop loss';
+
+    const intents: TradeIntent[] = [];
+    for (const [side, shares, book] of [
+      ['UP', position!.upBalance || 0, upBook],
+      ['DOWN', position!.downBalance || 0, downBook],
+    ] as const) {
+      if (shares > 0 && book.bestBid > 0) {
+        intents.push({ action: 'SELL', side, shares, price: book.bestBid, reason });
+      }
+    }
+    return intents;
+  }
+
+  onMarketClose(): TradeIntent[] {
+    // Held to resolution
+    return [];
+  }
+}
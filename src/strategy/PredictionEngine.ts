@@ -2,10 +2,10 @@
 // 5. ADVANCED PREDICTION ENGINE (src/strategy/PredictionEngine.ts)
 // ============================================================================
 
-import { MarketData, TradeSignal } from "../types";
+import { MarketData, TradeSignal, TradeStats } from "../types";
 
 export class PredictionEngine {
-  predict(data: MarketData): TradeSignal {
+  predict(data: MarketData, orderFlow?: { up: TradeStats; down: TradeStats }): TradeSignal {
     const reasons: string[] = [];
     let confidence = 50;
     let direction: 'UP' | 'DOWN' | 'SKIP' = 'SKIP';
@@ -64,6 +64,20 @@ export class PredictionEngine {
       }
     }
 
+    // Rule 5: Polymarket order flow on the chosen token
+    if (orderFlow && direction !== 'SKIP') {
+      const flow = direction === 'UP' ? orderFlow.up : orderFlow.down;
+      const other = direction === 'UP' ? orderFlow.down : orderFlow.up;
+
+      if (flow.tradeCount >= 5 && flow.buyRatio > 0.6) {
+        confidence += 5;
+        reasons.push(`Order flow confirms (${(flow.buyRatio * 100).toFixed(0)}% buy aggressors on ${direction})`);
+      } else if (other.tradeCount >= 5 && other.buyRatio > 0.6) {
+        confidence -= 5;
+        reasons.push('Order flow favours the opposite token');
+      }
+    }
+
     // Adjust confidence based on volatility
     if (volatility < 1) {
       confidence -= 10;
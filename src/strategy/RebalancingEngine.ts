@@ -2,9 +2,17 @@
 // REBALANCING STRATEGY ENGINE (src/strategy/RebalancingEngine.ts)
 // ============================================================================
 
+import { BotConfig } from '../config';
 import { MarketData, OrderBookData, Position, RebalanceDecision } from '../types';
+import { estimateSlippage, walkLevels } from '../utils/orderbook';
 
 export class RebalancingEngine {
+  private config: BotConfig['rebalancing'];
+
+  constructor(config: BotConfig['rebalancing']) {
+    this.config = config;
+  }
+
   /**
    * Evaluate if rebalancing is needed based on current position and market conditions
    */
@@ -66,14 +74,14 @@ export class RebalancingEngine {
 
     const isPriceDropping = priceMovement < -0.5 || marketData.priceChange5m < -0.3;
     const isGoodPrice = upBook.bestAsk <= targetPrice;
-    const hasLiquidity = upBook.asks[0]?.size >= imbalance;
+    const fill = this.fillAtAsks(upBook, imbalance);
 
-    if (isPriceDropping && isGoodPrice && hasLiquidity) {
+    if (isPriceDropping && isGoodPrice && fill) {
       return {
         shouldRebalance: true,
         action: 'BUY_UP',
         shares: imbalance,
-        targetPrice: upBook.bestAsk,
+        targetPrice: fill.limitPrice,
         currentImbalance: imbalance,
         reason: `Price dropping ${priceMovement.toFixed(2)}%, UP @ ${upBook.bestAsk.toFixed(4)} is attractive`,
       };
@@ -119,14 +127,14 @@ export class RebalancingEngine {
 
     const isPriceRising = priceMovement > 0.5 || marketData.priceChange5m > 0.3;
     const isGoodPrice = downBook.bestAsk <= targetPrice;
-    const hasLiquidity = downBook.asks[0]?.size >= imbalance;
+    const fill = this.fillAtAsks(downBook, imbalance);
 
-    if (isPriceRising && isGoodPrice && hasLiquidity) {
+    if (isPriceRising && isGoodPrice && fill) {
       return {
         shouldRebalance: true,
         action: 'BUY_DOWN',
         shares: imbalance,
-        targetPrice: downBook.bestAsk,
+        targetPrice: fill.limitPrice,
         currentImbalance: imbalance,
         reason: `Price rising ${priceMovement.toFixed(2)}%, DOWN @ ${downBook.bestAsk.toFixed(4)} is attractive`,
       };
@@ -151,6 +159,17 @@ export class RebalancingEngine {
     };
   }
 
+  /**
+   * Limit price that buys `shares` down the ask ladder, or null if the book
+   * is too thin or the walk slips more than maxPriceSlippagePct past the best ask
+   */
+  private fillAtAsks(book: OrderBookData, shares: number): { limitPrice: number } | null {
+    const { filled, worstPrice } = walkLevels(book.asks, shares);
+    if (filled < shares) return null;
+    if (estimateSlippage(book, 'BUY', shares) > this.config.maxPriceSlippagePct) return null;
+    return { limitPrice: worstPrice };
+  }
+
   /**
    * Calculate expected profit from a balanced position
    */
@@ -168,20 +187,31 @@ export class RebalancingEngine {
   }
 
   /**
-   * Determine if position should be closed early
+   * Determine if position should be closed early (sold back at the bids)
    */
   shouldCloseEarly(
     position: Position,
     marketData: MarketData,
     upBook: OrderBookData,
     downBook: OrderBookData,
-    minutesRemaining: number
+    minutesRemaining: number,
+    stopLossPct?: number
   ): boolean {
     const upBalance = position.upBalance || 0;
     const downBalance = position.downBalance || 0;
     const isBalanced = upBalance === downBalance;
 
-    if (!isBalanced) return false;
+    if (upBalance === 0 && downBalance === 0) return false;
+
+    // What selling everything at the bids would bring in right now
+    const exitValue = upBalance * upBook.bestBid + downBalance * downBook.bestBid;
+
+    if (!isBalanced) {
+      // Unhedged and clearly losing: cut it before it goes to zero
+      if (stopLossPct === undefined || position.costBasis <= 0) return false;
+      const lossPct = ((position.costBasis - exitValue) / position.costBasis) * 100;
+      return lossPct >= stopLossPct;
+    }
 
     // Close if profit is locked and we're within 10 minutes
     if (minutesRemaining < 10) {
@@ -189,7 +219,8 @@ export class RebalancingEngine {
       const avgDownPrice = position.costBasis / (2 * downBalance);
       const profit = this.calculateBalancedProfit(upBalance, downBalance, avgUpPrice, avgDownPrice);
       
-      if (profit > position.shares * 0.05) { // 5% profit threshold
+      // ...and the bids still pay more than we spent
+      if (profit > position.shares * 0.05 && exitValue > position.costBasis) { // 5% profit threshold
         return true;
       }
     }
@@ -0,0 +1,44 @@
+// ============================================================================
+// STRATEGY INTERFACE (src/strategy/Strategy.ts)
+// ============================================================================
+
+import { BotConfig } from '../config';
+import { StrategyContext, TradeIntent } from '../types';
+import { DefaultStrategy } from './DefaultStrategy';
+
+/**
+ * Entry and rebalancing logic for one coin's hourly markets.
+ *
+ * Hooks only return intents; TradingBot executes them, persists the
+ * results and keeps the position up to date.
+ */
+export interface Strategy {
+  readonly name: string;
+
+  /** Market has books and data - return a BUY to enter, nothing to sit this market out */
+  onMarketOpen(context: StrategyContext): TradeIntent[];
+
+  /** Order book changed. Optional because it fires many times a second */
+  onBookUpdate?(context: StrategyContext): TradeIntent[];
+
+  /** Periodic rebalancing tick while a position is open */
+  onTick(context: StrategyContext): TradeIntent[];
+
+  /** Market has ended, just before the position is settled */
+  onMarketClose(context: StrategyContext): TradeIntent[];
+}
+
+const STRATEGIES: Record<string, (config: BotConfig) => Strategy> = {
+  default: (config) => new DefaultStrategy(config),
+};
+
+/**
+ * Build the strategy registered under `name`
+ */
+export function createStrategy(name: string | undefined, config: BotConfig): Strategy {
+  const factory = STRATEGIES[name || 'default'];
+  if (!factory) {
+    throw new Error(`Unknown strategy "${name}" (available: ${Object.keys(STRATEGIES).join(', ')})`);
+  }
+  return factory(config);
+}
@@ -0,0 +1,88 @@
+// ============================================================================
+// ARBITRAGE DETECTOR (src/trading/ArbitrageDetector.ts)
+// ============================================================================
+
+import { BotConfig } from "../config";
+import { ArbitrageOpportunity, OrderBookData } from "../types";
+import { roundTo } from "../utils/helpers";
+
+// Share amounts are stored to 6 decimals (DECIMAL(18, 6))
+const SHARE_DECIMALS = 6;
+
+/**
+ * Finds complete-set arbitrage: one UP plus one DOWN token always pays out
+ * $1, so buying both for less (fees included) locks in the difference.
+ */
+export class ArbitrageDetector {
+  private config: BotConfig['arbitrage'];
+
+  constructor(config: BotConfig['arbitrage']) {
+    this.config = config;
+  }
+
+  /**
+   * Walk both ask ladders together, pairing shares level by level for as long
+   * as each additional pair still clears `minEdgePerShare` and the budget.
+   * Each level is used up at its own price before the walk moves past it.
+   */
+  evaluate(
+    coin: string,
+    marketSlug: string,
+    upBook: OrderBookData,
+    downBook: OrderBookData,
+    now: number
+  ): ArbitrageOpportunity | null {
+    const upAsks = upBook.asks;
+    const downAsks = downBook.asks;
+    if (upAsks.length === 0 || downAsks.length === 0) return null;
+
+    const feeMultiplier = 1 + this.config.feeBps / 10000;
+
+    let i = 0;
+    let j = 0;
+    let upRemaining = upAsks[0].size;
+    let downRemaining = downAsks[0].size;
+    let shares = 0;
+    let cost = 0;
+    let upLimit = upAsks[0].price;
+    let downLimit = downAsks[0].price;
+
+    while (i < upAsks.length && j < downAsks.length) {
+      const pairCost = (upAsks[i].price + downAsks[j].price) * feeMultiplier;
+      if (1 - pairCost < this.config.minEdgePerShare) break;
+
+      // Rounded down so the pairs never cost more than the budget
+      const affordable = Math.floor(((this.config.maxCostUSDC - cost) / pairCost) * 10 ** SHARE_DECIMALS) / 10 ** SHARE_DECIMALS;
+      const take = Math.min(upRemaining, downRemaining, affordable);
+      if (take <= 0) break;
+
+      shares = roundTo(shares + take, SHARE_DECIMALS);
+      cost += take * pairCost;
+      upLimit = upAsks[i].price;
+      downLimit = downAsks[j].price;
+      upRemaining = roundTo(upRemaining - take, SHARE_DECIMALS);
+      downRemaining = roundTo(downRemaining - take, SHARE_DECIMALS);
+
+      // Both levels still have shares, so it was the budget that ran out
+      if (upRemaining > 0 && downRemaining > 0) break;
+
+      if (upRemaining <= 0 && ++i < upAsks.length) upRemaining = upAsks[i].size;
+      if (downRemaining <= 0 && ++j < downAsks.length) downRemaining = downAsks[j].size;
+    }
+
+    if (shares < this.config.minShares) return null;
+
+    return {
+      coin,
+      marketSlug,
+      upAsk: upAsks[0].price,
+      downAsk: downAsks[0].price,
+      shares,
+      upLimit,
+      downLimit,
+      cost,
+      edge: shares - cost,
+      timestamp: now,
+    };
+  }
+}
@@ -0,0 +1,106 @@
+// ============================================================================
+// BALANCE RECONCILER (src/trading/BalanceReconciler.ts)
+// ============================================================================
+
+import { BotConfig } from "../config";
+import { DatabaseClient } from "../database/client";
+import { PolymarketClient } from "../polymarket/PolymarketClient";
+import { Position } from "../types";
+import { OrderManager } from "./OrderManager";
+import { Clock, systemClock } from "../utils/clock";
+
+/**
+ * Compares the UP/DOWN balances stored on a position with the tokens our
+ * wallet actually holds, and looks for open CLOB orders the bot no longer
+ * tracks (e.g. after a crash mid-trade).
+ */
+export class BalanceReconciler {
+  private polymarket: PolymarketClient;
+  private db: DatabaseClient;
+  private orderManager: OrderManager;
+  private options: BotConfig['reconciliation'];
+  private clock: Clock;
+
+  constructor(
+    polymarket: PolymarketClient,
+    db: DatabaseClient,
+    orderManager: OrderManager,
+    options: BotConfig['reconciliation'],
+    clock: Clock = systemClock
+  ) {
+    this.polymarket = polymarket;
+    this.db = db;
+    this.orderManager = orderManager;
+    this.options = options;
+    this.clock = clock;
+  }
+
+  /**
+   * Reconcile one position. Returns the position with corrected balances when
+   * auto-correct is on, otherwise the position unchanged.
+   */
+  async reconcile(position: Position): Promise<Position> {
+    const legs: Array<{ side: 'UP' | 'DOWN'; tokenId: string; dbBalance: number }> = [
+      { side: 'UP', tokenId: position.assetIds.up, dbBalance: position.upBalance || 0 },
+      { side: 'DOWN', tokenId: position.assetIds.down, dbBalance: position.downBalance || 0 },
+    ];
+
+    const corrections: Partial<Position> = {};
+
+    for (const leg of legs) {
+      const chainBalance = await this.polymarket.getTokenBalance(leg.tokenId);
+      const openOrders = await this.polymarket.getOpenOrdersForAsset(leg.tokenId);
+
+      if (chainBalance === null || openOrders === null) {
+        console.warn(`⚠️ ${position.coin} ${leg.side}: Could not fetch live balance/orders, skipping reconciliation`);
+        continue;
+      }
+
+      const orphaned = openOrders.filter(o => !this.orderManager.getOrder(o.id));
+      const openOrderShares = openOrders.reduce(
+        (sum, o) => sum + (parseFloat(o.original_size) - parseFloat(o.size_matched)), 0
+      );
+
+      const diff = chainBalance - leg.dbBalance;
+      const mismatched = Math.abs(diff) >= this.options.toleranceShares;
+
+      if (!mismatched && orphaned.length === 0) continue;
+
+      console.warn(`🔎 ${position.coin} ${leg.side} discrepancy: DB ${leg.dbBalance} vs wallet ${chainBalance} (${orphaned.length} orphaned orders, ${openOrderShares} shares resting)`);
+
+      if (this.options.autoCorrect) {
+        for (const order of orphaned) {
+          console.log(`   🗑️ Cancelling orphaned order ${order.id.slice(0, 10)}...`);
+          await this.polymarket.cancelOrder(order.id);
+        }
+
+        if (mismatched) {
+          if (leg.side === 'UP') corrections.upBalance = chainBalance;
+          else corrections.downBalance = chainBalance;
+        }
+      }
+
+      await this.db.insertBalanceDiscrepancy({
+        positionId: position.id,
+        coin: position.coin,
+        side: leg.side,
+        tokenId: leg.tokenId,
+        dbBalance: leg.dbBalance,
+        chainBalance,
+        openOrderShares,
+        orphanedOrders: orphaned.length,
+        corrected: this.options.autoCorrect,
+        detectedAt: this.clock.now(),
+      });
+    }
+
+    if (Object.keys(corrections).length === 0) {
+      return position;
+    }
+
+    await this.db.updatePosition(position.id, corrections);
+    console.log(`   ✅ ${position.coin}: DB balances corrected to UP ${corrections.upBalance ?? position.upBalance} / DOWN ${corrections.downBalance ?? position.downBalance}`);
+
+    return { ...position, ...corrections };
+  }
+}
@@ -0,0 +1,318 @@
+// ============================================================================
+// PAPER FILL SIMULATOR (src/trading/FillSimulator.ts)
+// ============================================================================
+
+import { LocalOrderBook } from "../polymarket/types";
+import { ExecutionResult, OrderRequest } from "../types";
+import { Clock, TimerHandle, systemClock } from "../utils/clock";
+import { roundTo } from "../utils/helpers";
+
+// Share amounts are stored to 6 decimals (DECIMAL(18, 6))
+const SHARE_DECIMALS = 6;
+
+interface BookLevel {
+  price: number;
+  size: number;       // What is left for simulated fills
+}
+
+interface ConsumedLevel {
+  shown: number;      // Size the exchange showed when we first filled against the level
+  taken: number;      // Shares simulated fills have taken from it since
+}
+
+interface SimulatedBook {
+  bids: BookLevel[]; // best (highest) first
+  asks: BookLevel[]; // best (lowest) first
+  timestamp: number;
+}
+
+export interface Fill {
+  shares: number;
+  price: number;
+}
+
+interface RestingOrder {
+  id: string;
+  order: OrderRequest;
+  remaining: number;
+  fills: Fill[];
+  resolve: () => void;
+  timer: TimerHandle | null;          // null for quotes, which rest until cancelled
+  onFill?: (fills: Fill[]) => void;
+}
+
+export interface FillSimulatorOptions {
+  latencyMs: number;         // Delay between submit and the order reaching the book
+  restingTimeoutMs: number;  // How long an unfilled remainder rests before it is cancelled
+}
+
+/**
+ * Simulated matching engine for paper trading.
+ *
+ * Keeps the latest Polymarket book per asset, walks price levels to
+ * fill incoming orders (partially if depth runs out), and rests any remainder
+ * as a limit order that fills when a later book update crosses its price.
+ *
+ * Maker quotes rest the same way, so a paper bid only fills once the ask
+ * comes down to it - there is no queue position to get filled from.
+ */
+export class FillSimulator {
+  private books: Map<string, SimulatedBook> = new Map();
+  private consumed: Map<string, Map<string, ConsumedLevel>> = new Map();
+  private restingOrders: Map<string, RestingOrder[]> = new Map();
+  private options: FillSimulatorOptions;
+  private clock: Clock;
+
+  constructor(options: FillSimulatorOptions, clock: Clock = systemClock) {
+    this.options = options;
+    this.clock = clock;
+  }
+
+  /**
+   * Replace the local book for an asset with the latest maintained book and match resting orders against it.
+   *
+   * Liquidity our simulated fills already took stays taken while the exchange
+   * keeps showing the same size at that level; once the size changes the level
+   * is treated as fresh. Otherwise every update would refill resting orders
+   * against the same displayed size.
+   */
+  onBook(book: LocalOrderBook): void {
+    const consumed = this.consumed.get(book.assetId) || new Map<string, ConsumedLevel>();
+    const stillConsumed = new Map<string, ConsumedLevel>();
+
+    const remaining = (side: 'BUY' | 'SELL', levels: BookLevel[]): BookLevel[] => levels
+      .map(level => {
+        const key = this.levelKey(side, level.price);
+        const entry = consumed.get(key);
+        if (!entry || entry.shown !== level.size) return { ...level };
+
+        stillConsumed.set(key, entry);
+        return { price: level.price, size: roundTo(level.size - entry.taken, SHARE_DECIMALS) };
+      })
+      .filter(level => level.size > 0);
+
+    this.books.set(book.assetId, {
+      bids: remaining('SELL', book.bids),
+      asks: remaining('BUY', book.asks),
+      timestamp: book.timestamp,
+    });
+    this.consumed.set(book.assetId, stillConsumed);
+
+    this.matchResting(book.assetId);
+  }
+
+  /**
+   * Submit an order. Resolves once the order is fully filled or its resting time runs out.
+   */
+  async submit(order: OrderRequest): Promise<ExecutionResult> {
+    const id = this.nextId();
+
+    if (this.options.latencyMs > 0) {
+      await new Promise<void>(resolve => this.clock.setTimeout(resolve, this.options.latencyMs));
+    }
+
+    if (!this.books.has(order.tokenId)) {
+      return {
+        success: false,
+        filledShares: 0,
+        avgPrice: 0,
+        orderId: id,
+        error: `No book data for asset ${order.tokenId.slice(0, 8)}...`,
+      };
+    }
+
+    const fills = this.walkBook(order.tokenId, order.side, order.price, order.shares);
+    const filled = fills.reduce((sum, f) => sum + f.shares, 0);
+    const remaining = roundTo(order.shares - filled, SHARE_DECIMALS);
+
+    if (remaining > 0 && this.options.restingTimeoutMs > 0) {
+      console.log(`📝 [PAPER] ${order.side} ${filled}/${order.shares} filled immediately, resting ${remaining} @ $${order.price.toFixed(4)}`);
+      await this.rest(id, order, remaining, fills);
+    }
+
+    return this.buildResult(id, order, fills);
+  }
+
+  /**
+   * Rest a post-only order until it fills or is cancelled. `onFill` gets each
+   * batch of fills. Returns null (rejected) if it would cross the book.
+   */
+  postQuote(order: OrderRequest, onFill: (fills: Fill[]) => void): string | null {
+    const book = this.books.get(order.tokenId);
+    if (!book) return null;
+
+    const opposite = order.side === 'BUY' ? book.asks[0] : book.bids[0];
+    if (opposite && (order.side === 'BUY' ? opposite.price <= order.price : opposite.price >= order.price)) {
+      return null;
+    }
+
+    const id = this.nextId();
+    const resting: RestingOrder = {
+      id,
+      order,
+      remaining: order.shares,
+      fills: [],
+      resolve: () => {},
+      timer: null,
+      onFill,
+    };
+
+    if (!this.restingOrders.has(order.tokenId)) {
+      this.restingOrders.set(order.tokenId, []);
+    }
+    this.restingOrders.get(order.tokenId)!.push(resting);
+
+    return id;
+  }
+
+  cancelQuote(tokenId: string, id: string): void {
+    this.removeResting(tokenId, id);
+  }
+
+  /**
+   * Consume liquidity from the opposite side of the book up to the limit price
+   */
+  private walkBook(assetId: string, side: 'BUY' | 'SELL', limitPrice: number, shares: number): Fill[] {
+    const book = this.books.get(assetId);
+    if (!book) return [];
+
+    const levels = side === 'BUY' ? book.asks : book.bids;
+    const crosses = (price: number) => side === 'BUY' ? price <= limitPrice : price >= limitPrice;
+
+    const fills: Fill[] = [];
+    let remaining = shares;
+
+    for (const level of levels) {
+      if (remaining <= 0 || !crosses(level.price)) break;
+
+      const take = Math.min(level.size, remaining);
+      fills.push({ shares: take, price: level.price });
+      this.consume(assetId, side, level, take);
+      level.size = roundTo(level.size - take, SHARE_DECIMALS);
+      remaining = roundTo(remaining - take, SHARE_DECIMALS);
+    }
+
+    // Drop exhausted levels so the same liquidity is not filled twice before the next book update
+    if (side === 'BUY') {
+      book.asks = book.asks.filter(l => l.size > 0);
+    } else {
+      book.bids = book.bids.filter(l => l.size > 0);
+    }
+
+    return fills;
+  }
+
+  /**
+   * Remember that a simulated fill took `shares` from a level the exchange still shows
+   */
+  private consume(assetId: string, side: 'BUY' | 'SELL', level: BookLevel, shares: number): void {
+    if (!this.consumed.has(assetId)) {
+      this.consumed.set(assetId, new Map());
+    }
+
+    const levels = this.consumed.get(assetId)!;
+    const key = this.levelKey(side, level.price);
+    const entry = levels.get(key);
+    if (entry) {
+      entry.taken = roundTo(entry.taken + shares, SHARE_DECIMALS);
+    } else {
+      // First fill against this level since the exchange last changed it, so what is left is what it shows
+      levels.set(key, { shown: level.size, taken: shares });
+    }
+  }
+
+  private levelKey(side: 'BUY' | 'SELL', price: number): string {
+    return `${side}:${price}`;
+  }
+
+  /**
+   * Park the remainder of an order until it is filled or times out
+   */
+  private rest(id: string, order: OrderRequest, remaining: number, fills: Fill[]): Promise<void> {
+    return new Promise<void>(resolve => {
+      const resting: RestingOrder = {
+        id,
+        order,
+        remaining,
+        fills,
+        resolve,
+        timer: this.clock.setTimeout(() => {
+          this.removeResting(order.tokenId, id);
+          resolve();
+        }, this.options.restingTimeoutMs),
+      };
+
+      if (!this.restingOrders.has(order.tokenId)) {
+        this.restingOrders.set(order.tokenId, []);
+      }
+      this.restingOrders.get(order.tokenId)!.push(resting);
+    });
+  }
+
+  /**
+   * Fill resting orders whose limit price is crossed by the current book
+   */
+  private matchResting(assetId: string): void {
+    const orders = this.restingOrders.get(assetId);
+    if (!orders || orders.length === 0) return;
+
+    for (const resting of [...orders]) {
+      let fills = this.walkBook(assetId, resting.order.side, resting.order.price, resting.remaining);
+      if (fills.length === 0) continue;
+
+      // A quote was on the book first, so it trades at its own price
+      if (resting.onFill) {
+        fills = fills.map(fill => ({ shares: fill.shares, price: resting.order.price }));
+      }
+
+      resting.fills.push(...fills);
+      resting.remaining = roundTo(resting.remaining - fills.reduce((sum, f) => sum + f.shares, 0), SHARE_DECIMALS);
+      resting.onFill?.(fills);
+
+      if (resting.remaining <= 0) {
+        this.clock.clearTimeout(resting.timer);
+        this.removeResting(assetId, resting.id);
+        resting.resolve();
+      }
+    }
+  }
+
+  private removeResting(assetId: string, id: string): void {
+    const orders = this.restingOrders.get(assetId);
+    if (!orders) return;
+
+    const remaining = orders.filter(o => o.id !== id);
+    if (remaining.length > 0) {
+      this.restingOrders.set(assetId, remaining);
+    } else {
+      this.restingOrders.delete(assetId);
+    }
+  }
+
+  private nextId(): string {
+    return `paper_${this.clock.now()}_${Math.random().toString(36).substr(2, 9)}`;
+  }
+
+  private buildResult(id: string, order: OrderRequest, fills: Fill[]): ExecutionResult {
+    const filledShares = fills.reduce((sum, f) => sum + f.shares, 0);
+
+    if (filledShares === 0) {
+      return {
+        success: false,
+        filledShares: 0,
+        avgPrice: 0,
+        orderId: id,
+        error: `No liquidity at or better than $${order.price.toFixed(4)}`,
+      };
+    }
+
+    const notional = fills.reduce((sum, f) => sum + f.shares * f.price, 0);
+
+    return {
+      success: true,
+      filledShares,
+      avgPrice: notional / filledShares,
+      orderId: id,
+    };
+  }
+}
@@ -0,0 +1,106 @@
+// ============================================================================
+// LIVE EXECUTOR (src/trading/LiveExecutor.ts)
+// ============================================================================
+
+import { PolymarketClient } from "../polymarket/PolymarketClient";
+import { ExecutionResult, OrderRequest } from "../types";
+import { OrderExecutor } from "./OrderExecutor";
+import { OrderManager } from "./OrderManager";
+import { Clock, systemClock } from "../utils/clock";
+
+export class LiveExecutor implements OrderExecutor {
+  readonly mode = 'live' as const;
+  private polymarket: PolymarketClient;
+  private orderManager: OrderManager;
+  private clock: Clock;
+
+  constructor(polymarket: PolymarketClient, orderManager: OrderManager, clock: Clock = systemClock) {
+    this.polymarket = polymarket;
+    this.orderManager = orderManager;
+    this.clock = clock;
+  }
+
+  /**
+   * Post the order to the Polymarket CLOB and wait until it is filled or cancelled
+   */
+  async execute(order: OrderRequest): Promise<ExecutionResult> {
+    const orderId = order.side === 'BUY'
+      ? await this.polymarket.buyShares(order.tokenId, order.shares, order.price)
+      : await this.polymarket.sellShares(order.tokenId, order.shares, order.price);
+
+    if (!orderId) {
+      return {
+        success: false,
+        filledShares: 0,
+        avgPrice: 0,
+        error: `${order.side} order rejected by CLOB`,
+      };
+    }
+
+    await this.orderManager.track({
+      id: orderId,
+      coin: order.coin,
+      tokenId: order.tokenId,
+      side: order.side,
+      price: order.price,
+      size: order.shares,
+      filledSize: 0,
+      avgFillPrice: 0,
+      status: 'OPEN',
+      mode: 'live',
+      createdAt: this.clock.now(),
+      updatedAt: this.clock.now(),
+    });
+
+    // Balances are only ever moved by what actually matched
+    const final = await this.orderManager.waitForCompletion(orderId);
+
+    if (final.filledSize === 0) {
+      return {
+        success: false,
+        filledShares: 0,
+        avgPrice: 0,
+        orderId,
+        error: final.error || `Order ${final.status.toLowerCase()} without fills`,
+      };
+    }
+
+    return {
+      success: true,
+      filledShares: final.filledSize,
+      avgPrice: final.avgFillPrice,
+      orderId,
+    };
+  }
+
+  async placeQuote(order: OrderRequest): Promise<string | null> {
+    if (order.side !== 'BUY') {
+      throw new Error('Only bids are quoted');
+    }
+
+    const orderId = await this.polymarket.postBid(order.tokenId, order.shares, order.price);
+    if (!orderId) return null;
+
+    await this.orderManager.track({
+      id: orderId,
+      coin: order.coin,
+      tokenId: order.tokenId,
+      side: order.side,
+      price: order.price,
+      size: order.shares,
+      filledSize: 0,
+      avgFillPrice: 0,
+      status: 'OPEN',
+      mode: 'live',
+      createdAt: this.clock.now(),
+      updatedAt: this.clock.now(),
+      resting: true,
+    });
+
+    return orderId;
+  }
+
+  async cancelQuote(orderId: string): Promise<void> {
+    await this.orderManager.cancel(orderId, 'Quote cancelled');
+  }
+}
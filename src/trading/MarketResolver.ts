@@ -0,0 +1,68 @@
+// ============================================================================
+// MARKET RESOLVER (src/trading/MarketResolver.ts)
+// ============================================================================
+
+import { BinanceWebSocketDataProvider } from "../data/WebSocketDataProvider";
+import { PolymarketClient } from "../polymarket/PolymarketClient";
+import { MarketResolution, Position } from "../types";
+import { Clock, systemClock } from "../utils/clock";
+
+export class MarketResolver {
+  private polymarket: PolymarketClient;
+  private dataProvider: BinanceWebSocketDataProvider;
+  private clock: Clock;
+
+  constructor(polymarket: PolymarketClient, dataProvider: BinanceWebSocketDataProvider, clock: Clock = systemClock) {
+    this.polymarket = polymarket;
+    this.dataProvider = dataProvider;
+    this.clock = clock;
+  }
+
+  /**
+   * Determine which side won an hourly market.
+   *
+   * Gamma is authoritative once the market has resolved. Until then the
+   * outcome is derived the same way Polymarket resolves it: UP if the
+   * Binance 1h candle closes at or above its open.
+   */
+  async resolve(position: Position, attempts: number = 3, delayMs: number = 5000): Promise<MarketResolution | null> {
+    const hourStart = position.marketEndTime - 3600000;
+
+    for (let attempt = 1; attempt <= attempts; attempt++) {
+      const gammaOutcome = await this.polymarket.getResolvedOutcome(position.marketSlug);
+      if (gammaOutcome) {
+        return { outcome: gammaOutcome, source: 'GAMMA' };
+      }
+
+      const candle = await this.dataProvider.fetchHourCandle(position.coin, hourStart);
+      if (candle) {
+        return {
+          outcome: candle.close >= candle.open ? 'UP' : 'DOWN',
+          source: 'BINANCE',
+          openPrice: candle.open,
+          closePrice: candle.close,
+        };
+      }
+
+      if (attempt < attempts) {
+        await new Promise<void>(resolve => this.clock.setTimeout(resolve, delayMs));
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Settlement value of a position: every winning share pays $1, losing shares pay nothing.
+   * P&L includes whatever was realized by selling before expiry.
+   */
+  settle(position: Position, outcome: 'UP' | 'DOWN'): { payout: number; pnl: number } {
+    const winningShares = outcome === 'UP' ? (position.upBalance || 0) : (position.downBalance || 0);
+    const payout = winningShares * 1.0;
+
+    return {
+      payout,
+      pnl: payout - position.costBasis + (position.realizedPnl || 0),
+    };
+  }
+}
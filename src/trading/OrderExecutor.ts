@@ -0,0 +1,49 @@
+// ============================================================================
+// ORDER EXECUTOR (src/trading/OrderExecutor.ts)
+// ============================================================================
+
+import { BotConfig, ExecutionMode } from "../config";
+import { PolymarketClient } from "../polymarket/PolymarketClient";
+import { LocalOrderBook } from "../polymarket/types";
+import { ExecutionResult, OrderRequest } from "../types";
+import { LiveExecutor } from "./LiveExecutor";
+import { PaperExecutor } from "./PaperExecutor";
+import { FillSimulator } from "./FillSimulator";
+import { OrderManager } from "./OrderManager";
+import { Clock, systemClock } from "../utils/clock";
+
+/**
+ * Places orders on behalf of the bot. Implementations decide whether the
+ * order hits the real CLOB or is only simulated.
+ */
+export interface OrderExecutor {
+  readonly mode: ExecutionMode;
+  execute(order: OrderRequest): Promise<ExecutionResult>;
+
+  /**
+   * Rest a post-only limit order without waiting for it. Fills arrive as
+   * OrderManager `fill` events. Resolves null if the order was rejected.
+   */
+  placeQuote(order: OrderRequest): Promise<string | null>;
+  cancelQuote(orderId: string): Promise<void>;
+}
+
+/**
+ * Build the executor selected by `config.execution.mode`
+ */
+export function createOrderExecutor(
+  config: BotConfig,
+  polymarket: PolymarketClient,
+  orderManager: OrderManager,
+  clock: Clock = systemClock
+): OrderExecutor {
+  if (config.execution.mode === 'live') {
+    return new LiveExecutor(polymarket, orderManager, clock);
+  }
+
+  // Paper fills are matched against the same books the bot trades on
+  const simulator = new FillSimulator(config.execution.paper, clock);
+  polymarket.on('book_update', (book: LocalOrderBook) => simulator.onBook(book));
+
+  return new PaperExecutor(simulator, orderManager, clock);
+}
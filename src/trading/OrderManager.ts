@@ -0,0 +1,401 @@
+// ============================================================================
+// ORDER MANAGER (src/trading/OrderManager.ts)
+// ============================================================================
+
+import { EventEmitter } from 'events';
+import { PolymarketClient } from "../polymarket/PolymarketClient";
+import { PolymarketUserWebSocket } from "../polymarket/userWebsocket";
+import { UserOrderMessage, UserTradeMessage } from "../polymarket/types";
+import { DatabaseClient } from "../database/client";
+import { OrderStatus, TrackedOrder } from "../types";
+import { Clock, TimerHandle, systemClock } from "../utils/clock";
+
+const TERMINAL_STATUSES: OrderStatus[] = ['FILLED', 'CANCELLED', 'REJECTED'];
+const TERMINAL_RETENTION_MS = 10 * 60 * 1000;
+
+export interface OrderManagerOptions {
+  ttlMs: number;
+  pollIntervalMs: number;
+}
+
+/**
+ * Tracks every order from placement to a terminal state.
+ *
+ * Live orders are confirmed from the authenticated user channel when it is
+ * attached, polled on the CLOB as a fallback, and cancelled once they outlive
+ * the TTL. Every state change is persisted to the `orders` table and fills are
+ * emitted as `fill` events. A fill whose trade later fails on-chain is taken
+ * back out of the order and emitted as `fill_reverted` once its owner has
+ * seen it (every fill of a resting order, a taker order's once it is final).
+ */
+export class OrderManager extends EventEmitter {
+  private polymarket: PolymarketClient;
+  private db: DatabaseClient;
+  private options: OrderManagerOptions;
+  private clock: Clock;
+
+  private orders: Map<string, TrackedOrder> = new Map();
+  private waiters: Map<string, Array<(order: TrackedOrder) => void>> = new Map();
+  private pollTimer: TimerHandle | null = null;
+  private polling: boolean = false;
+
+  // Orders the CLOB refused to cancel, by cancel reason; retried every poll until it confirms
+  private pendingCancels: Map<string, string> = new Map();
+
+  // Per-order matched size reported by user channel trades, and trade IDs already counted
+  private matchedFromTrades: Map<string, number> = new Map();
+  private seenTradeIds: Set<string> = new Set();
+
+  // Per-order shares from trades that FAILED after matching, netted out of every reported total
+  private revertedFromTrades: Map<string, number> = new Map();
+  private failedTradeIds: Set<string> = new Set();
+
+  constructor(polymarket: PolymarketClient, db: DatabaseClient, options: OrderManagerOptions, clock: Clock = systemClock) {
+    super();
+    this.polymarket = polymarket;
+    this.db = db;
+    this.options = options;
+    this.clock = clock;
+  }
+
+  start(): void {
+    if (this.pollTimer) return;
+
+    this.pollTimer = this.clock.setInterval(() => {
+      this.poll().catch(err => console.error('❌ Order poll failed:', err.message));
+    }, this.options.pollIntervalMs);
+  }
+
+  stop(): void {
+    if (this.pollTimer) {
+      this.clock.clearInterval(this.pollTimer);
+      this.pollTimer = null;
+    }
+  }
+
+  /**
+   * Consume order and trade events from the authenticated user channel
+   */
+  attachUserChannel(userChannel: PolymarketUserWebSocket): void {
+    userChannel.on('trade', (message: UserTradeMessage) => {
+      this.handleUserTrade(message).catch(err => console.error('❌ Failed to apply user trade:', err.message));
+    });
+    userChannel.on('order', (message: UserOrderMessage) => {
+      this.handleUserOrder(message).catch(err => console.error('❌ Failed to apply user order update:', err.message));
+    });
+  }
+
+  /**
+   * Start tracking a newly placed order
+   */
+  async track(order: TrackedOrder): Promise<void> {
+    this.orders.set(order.id, order);
+    await this.db.insertOrder(order);
+
+    if (this.isTerminal(order)) {
+      this.finalize(order);
+    }
+  }
+
+  /**
+   * Apply an incremental fill to a tracked order
+   */
+  async recordFill(orderId: string, shares: number, price: number): Promise<void> {
+    const order = this.orders.get(orderId);
+    if (!order || shares <= 0) return;
+
+    const previousNotional = order.filledSize * order.avgFillPrice;
+    order.filledSize += shares;
+    order.avgFillPrice = (previousNotional + shares * price) / order.filledSize;
+    order.updatedAt = this.clock.now();
+
+    if (!this.isTerminal(order)) {
+      order.status = order.filledSize >= order.size ? 'FILLED' : 'PARTIALLY_FILLED';
+    }
+
+    console.log(`📥 Order ${orderId.slice(0, 10)}... filled ${shares} @ $${price.toFixed(4)} (${order.filledSize}/${order.size})`);
+
+    await this.db.updateOrder(orderId, {
+      filledSize: order.filledSize,
+      avgFillPrice: order.avgFillPrice,
+      status: order.status,
+    });
+
+    this.emit('fill', { order, shares, price });
+
+    if (order.status === 'FILLED') {
+      this.finalize(order);
+    }
+  }
+
+  /**
+   * Bring an order's filled size up to a cumulative matched size.
+   * Every source (REST poll, order events, trade events) reports a running total,
+   * so taking the maximum never counts the same fill twice.
+   */
+  private async applyMatched(orderId: string, totalMatched: number, price: number): Promise<void> {
+    const order = this.orders.get(orderId);
+    if (!order) return;
+
+    // Totals keep counting a trade that failed after it matched
+    const settled = totalMatched - (this.revertedFromTrades.get(orderId) || 0);
+    if (settled <= order.filledSize) return;
+
+    await this.recordFill(orderId, settled - order.filledSize, price);
+  }
+
+  /**
+   * Move a tracked order to a new status (e.g. cancelled by the exchange)
+   */
+  async updateStatus(orderId: string, status: OrderStatus, error?: string): Promise<void> {
+    const order = this.orders.get(orderId);
+    if (!order || this.isTerminal(order)) return;
+
+    order.status = status;
+    order.updatedAt = this.clock.now();
+    if (error) order.error = error;
+
+    await this.db.updateOrder(orderId, { status, error });
+
+    if (this.isTerminal(order)) {
+      this.finalize(order);
+    }
+  }
+
+  /**
+   * Resolve once the order reaches a terminal state
+   */
+  waitForCompletion(orderId: string): Promise<TrackedOrder> {
+    const order = this.orders.get(orderId);
+    if (!order) {
+      return Promise.reject(new Error(`Unknown order ${orderId}`));
+    }
+    if (this.isTerminal(order)) {
+      return Promise.resolve(order);
+    }
+
+    return new Promise(resolve => {
+      if (!this.waiters.has(orderId)) {
+        this.waiters.set(orderId, []);
+      }
+      this.waiters.get(orderId)!.push(resolve);
+    });
+  }
+
+  /**
+   * Cancel a live order on the CLOB and record whatever matched before the cancel landed.
+   * If the CLOB does not confirm the cancel the order stays open, so its fills are
+   * still applied, and the cancel is retried on every poll.
+   */
+  async cancel(orderId: string, reason: string): Promise<void> {
+    const order = this.orders.get(orderId);
+    if (!order || this.isTerminal(order)) {
+      this.pendingCancels.delete(orderId);
+      return;
+    }
+
+    const cancelled = await this.polymarket.cancelOrder(orderId);
+
+    // Pick up anything that matched between the last poll and the cancel
+    await this.syncFromClob(order, reason);
+
+    if (this.isTerminal(order)) {
+      this.pendingCancels.delete(orderId);
+      return;
+    }
+
+    if (!cancelled) {
+      if (!this.pendingCancels.has(orderId)) {
+        console.warn(`⚠️ Order ${orderId.slice(0, 10)}... may still be resting on the CLOB - retrying the cancel`);
+      }
+      this.pendingCancels.set(orderId, reason);
+      return;
+    }
+
+    this.pendingCancels.delete(orderId);
+    await this.updateStatus(orderId, 'CANCELLED', reason);
+  }
+
+  getOpenOrders(): TrackedOrder[] {
+    return Array.from(this.orders.values()).filter(o => !this.isTerminal(o));
+  }
+
+  getOrder(orderId: string): TrackedOrder | undefined {
+    return this.orders.get(orderId);
+  }
+
+  /**
+   * Sync open live orders with the CLOB and cancel the ones past their TTL
+   */
+  private async poll(): Promise<void> {
+    if (this.polling) return;
+    this.polling = true;
+
+    try {
+      this.pruneTerminal();
+
+      for (const order of this.getOpenOrders()) {
+        if (order.mode !== 'live') continue;
+
+        const pendingCancel = this.pendingCancels.get(order.id);
+        if (pendingCancel) {
+          await this.cancel(order.id, pendingCancel);
+          continue;
+        }
+
+        await this.syncFromClob(order);
+        if (this.isTerminal(order)) continue;
+
+        if (!order.resting && this.clock.now() - order.createdAt > this.options.ttlMs) {
+          console.log(`⏱️ Order ${order.id.slice(0, 10)}... exceeded TTL - cancelling (${order.filledSize}/${order.size} filled)`);
+          await this.cancel(order.id, 'Cancelled after TTL');
+        }
+      }
+    } finally {
+      this.polling = false;
+    }
+  }
+
+  private async syncFromClob(order: TrackedOrder, cancelReason?: string): Promise<void> {
+    const remote = await this.polymarket.getOrder(order.id);
+    if (!remote) return;
+
+    // The order endpoint has no fill prices - a limit order fills at its price or better
+    const matched = parseFloat(remote.size_matched) || 0;
+    await this.applyMatched(order.id, matched, parseFloat(remote.price) || order.price);
+
+    const status = remote.status.toUpperCase();
+    if (status === 'CANCELED' || status === 'CANCELLED' || status === 'UNMATCHED') {
+      await this.updateStatus(order.id, 'CANCELLED', cancelReason);
+    }
+  }
+
+  /**
+   * A trade touching one of our orders, either as taker or as resting maker
+   */
+  private async handleUserTrade(message: UserTradeMessage): Promise<void> {
+    if (message.status === 'FAILED') {
+      console.error(`🚨 Trade ${message.id} FAILED on-chain (taker order ${message.taker_order_id.slice(0, 10)}...)`);
+      await this.revertTrade(message);
+      return;
+    }
+
+    // A trade is reported again as it moves MATCHED → MINED → CONFIRMED; count it once
+    if (this.seenTradeIds.has(message.id)) return;
+
+    const legs = this.ourLegs(message);
+    if (legs.length === 0) return;
+    this.seenTradeIds.add(message.id);
+
+    for (const leg of legs) {
+      const total = (this.matchedFromTrades.get(leg.orderId) || 0) + leg.size;
+      this.matchedFromTrades.set(leg.orderId, total);
+      await this.applyMatched(leg.orderId, total, leg.price);
+    }
+  }
+
+  /**
+   * Take a failed trade's shares back out of the orders it filled
+   */
+  private async revertTrade(message: UserTradeMessage): Promise<void> {
+    if (this.failedTradeIds.has(message.id)) return;
+
+    const legs = this.ourLegs(message);
+    if (legs.length === 0) return;
+
+    this.failedTradeIds.add(message.id);
+    const counted = this.seenTradeIds.has(message.id);
+    // Never count it if the MATCHED report is still to come
+    this.seenTradeIds.add(message.id);
+
+    for (const leg of legs) {
+      // Reported totals carry the failed trade from here on; the trade total has to as well
+      this.revertedFromTrades.set(leg.orderId, (this.revertedFromTrades.get(leg.orderId) || 0) + leg.size);
+      if (!counted) {
+        this.matchedFromTrades.set(leg.orderId, (this.matchedFromTrades.get(leg.orderId) || 0) + leg.size);
+        continue;
+      }
+
+      const order = this.orders.get(leg.orderId)!;
+      const shares = Math.min(leg.size, order.filledSize);
+      if (shares <= 0) continue;
+
+      const notional = order.filledSize * order.avgFillPrice - shares * leg.price;
+      order.filledSize -= shares;
+      order.avgFillPrice = order.filledSize > 0 ? notional / order.filledSize : 0;
+      order.updatedAt = this.clock.now();
+      order.error = `Trade ${message.id} failed on-chain`;
+
+      console.log(`↩️ Order ${order.id.slice(0, 10)}... reverted ${shares} @ $${leg.price.toFixed(4)} (${order.filledSize}/${order.size})`);
+
+      await this.db.updateOrder(order.id, {
+        filledSize: order.filledSize,
+        avgFillPrice: order.avgFillPrice,
+        error: order.error,
+      });
+
+      // A taker order still in flight just reports the lower filled size when it completes
+      if (order.resting || this.isTerminal(order)) {
+        this.emit('fill_reverted', { order, shares, price: leg.price });
+      }
+    }
+  }
+
+  /**
+   * The legs of a trade that belong to orders we track
+   */
+  private ourLegs(message: UserTradeMessage): Array<{ orderId: string; size: number; price: number }> {
+    const legs: Array<{ orderId: string; size: number; price: number }> = [];
+
+    if (this.orders.has(message.taker_order_id)) {
+      legs.push({ orderId: message.taker_order_id, size: parseFloat(message.size), price: parseFloat(message.price) });
+    }
+    for (const maker of message.maker_orders || []) {
+      if (this.orders.has(maker.order_id)) {
+        legs.push({ orderId: maker.order_id, size: parseFloat(maker.matched_amount), price: parseFloat(maker.price) });
+      }
+    }
+    return legs;
+  }
+
+  private async handleUserOrder(message: UserOrderMessage): Promise<void> {
+    if (!this.orders.has(message.id)) return;
+
+    const matched = parseFloat(message.size_matched) || 0;
+    await this.applyMatched(message.id, matched, parseFloat(message.price));
+
+    if (message.type === 'CANCELLATION') {
+      await this.updateStatus(message.id, 'CANCELLED');
+    }
+  }
+
+  private isTerminal(order: TrackedOrder): boolean {
+    return TERMINAL_STATUSES.includes(order.status);
+  }
+
+  private finalize(order: TrackedOrder): void {
+    const waiters = this.waiters.get(order.id) || [];
+    this.waiters.delete(order.id);
+    waiters.forEach(resolve => resolve(order));
+  }
+
+  /**
+   * Keep memory bounded - terminal orders live on in the DB
+   */
+  private pruneTerminal(): void {
+    if (this.seenTradeIds.size > 10000) {
+      this.seenTradeIds.clear();
+      this.failedTradeIds.clear();
+    }
+
+    const cutoff = this.clock.now() - TERMINAL_RETENTION_MS;
+    for (const [id, order] of this.orders.entries()) {
+      if (this.isTerminal(order) && order.updatedAt < cutoff) {
+        this.orders.delete(id);
+        this.matchedFromTrades.delete(id);
+        this.revertedFromTrades.delete(id);
+        this.pendingCancels.delete(id);
+      }
+    }
+  }
+}
@@ -3,14 +3,29 @@
 // ============================================================================
 
 import { BotConfig } from "../config";
-import { Position } from "../types";
+import { DatabaseClient } from "../database/client";
+import { Position, RiskVerdict } from "../types";
+import { Clock, systemClock } from "../utils/clock";
 
 export class PositionManager {
   private positions: Map<string, Position> = new Map();
   private config: BotConfig;
+  private db: DatabaseClient;
+  private clock: Clock;
 
-  constructor(config: BotConfig) {
+  constructor(config: BotConfig, db: DatabaseClient, clock: Clock = systemClock) {
     this.config = config;
+    this.db = db;
+    this.clock = clock;
+  }
+
+  /**
+   * Replace the in-memory view with the open positions in the database, so
+   * fills applied elsewhere (rebalances, quotes, reconciliation) are counted
+   */
+  async refresh(): Promise<void> {
+    const open = await this.db.getOpenPositions();
+    this.positions = new Map(open.map(p => [p.id, p]));
   }
 
   openPosition(position: Position): void {
@@ -30,7 +45,7 @@ export class PositionManager {
     if (pos) {
       pos.status = 'CLOSED';
       pos.exitPrice = exitPrice;
-      pos.exitTime = Date.now();
+      pos.exitTime = this.clock.now();
       pos.pnl = pnl;
       console.log(`\n💰 CLOSED: ${pos.coin} ${pos.side} | P&L: $${pnl.toFixed(2)}`);
     }
@@ -52,17 +67,72 @@ export class PositionManager {
            totalExposure < this.config.risk.maxTotalExposure;
   }
 
+  /**
+   * Risk gate for opening a new position costing `cost`
+   */
+  async checkEntry(cost: number): Promise<RiskVerdict> {
+    await this.refresh();
+
+    const openPositions = this.getOpenPositions().length;
+    const exposure = this.getTotalExposure();
+
+    if (openPositions >= this.config.risk.maxConcurrentPositions) {
+      return {
+        allowed: false,
+        reason: `${openPositions} positions open (max ${this.config.risk.maxConcurrentPositions})`,
+        exposure,
+        openPositions,
+      };
+    }
+
+    return this.checkExposure(cost, exposure, openPositions);
+  }
+
+  /**
+   * Risk gate for adding `cost` to an open position. Sells never need one -
+   * they only reduce exposure.
+   */
+  async checkBuy(cost: number): Promise<RiskVerdict> {
+    await this.refresh();
+    return this.checkExposure(cost, this.getTotalExposure(), this.getOpenPositions().length);
+  }
+
+  private checkExposure(cost: number, exposure: number, openPositions: number): RiskVerdict {
+    const limit = this.config.risk.maxTotalExposure;
+
+    if (exposure + cost > limit) {
+      return {
+        allowed: false,
+        reason: `Exposure $${exposure.toFixed(2)} + $${cost.toFixed(2)} would exceed $${limit.toFixed(2)}`,
+        exposure,
+        openPositions,
+      };
+    }
+
+    return { allowed: true, exposure, openPositions };
+  }
+
   calculatePositionSize(): number {
     const base = this.config.trading.maxPositionSizeUSDC;
     return base * 0.5;
   }
 
   evaluatePosition(position: Position, currentPrice: number, upPrice: number, downPrice: number): 'HEDGE' | 'STOP_LOSS' | 'HOLD' {
+    const upBalance = position.upBalance ?? (position.side === 'UP' ? position.shares : 0);
+    const downBalance = position.downBalance ?? (position.side === 'DOWN' ? position.shares : 0);
+
+    // A fully hedged position pays the same whichever way the price goes
+    if (upBalance === downBalance) {
+      return 'HOLD';
+    }
+
+    // Judge by the side the position is actually long after rebalancing
+    const side = upBalance > downBalance ? 'UP' : 'DOWN';
     const priceMove = ((currentPrice - position.hourOpenPrice) / position.hourOpenPrice) * 100;
-    const isWinning = (position.side === 'UP' && currentPrice > position.hourOpenPrice) ||
-                      (position.side === 'DOWN' && currentPrice < position.hourOpenPrice);
+    const isWinning = (side === 'UP' && currentPrice > position.hourOpenPrice) ||
+                      (side === 'DOWN' && currentPrice < position.hourOpenPrice);
 
-    const timeRemaining = position.marketEndTime - Date.now();
+    const timeRemaining = position.marketEndTime - this.clock.now();
     const minutesLeft = timeRemaining / 60000;
 
     // Emergency stop loss
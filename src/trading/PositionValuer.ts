@@ -0,0 +1,62 @@
+// ============================================================================
+// POSITION VALUER (src/trading/PositionValuer.ts)
+// ============================================================================
+
+import { OrderBookData, Position, PositionValuation } from "../types";
+import { walkLevels } from "../utils/orderbook";
+
+/**
+ * Marks open positions to market.
+ *
+ * Liquidation value sells each side's balance down the bid ladder, so depth
+ * is respected (shares beyond the visible bids are worth nothing). The mid
+ * mark is the less conservative view. Matched pairs pay $1 whichever side
+ * wins, which makes them a floor on what the position is worth at expiry.
+ */
+export class PositionValuer {
+  value(position: Position, upBook: OrderBookData, downBook: OrderBookData, now: number): PositionValuation {
+    const upBalance = position.upBalance || 0;
+    const downBalance = position.downBalance || 0;
+    const upMid = this.mid(upBook);
+    const downMid = this.mid(downBook);
+
+    const liquidationValue = this.sellIntoBids(upBook, upBalance) + this.sellIntoBids(downBook, downBalance);
+    const midValue = upBalance * upMid + downBalance * downMid;
+
+    return {
+      positionId: position.id,
+      coin: position.coin,
+      marketSlug: position.marketSlug,
+      upBalance,
+      downBalance,
+      upBid: upBook.bestBid,
+      downBid: downBook.bestBid,
+      upMid,
+      downMid,
+      liquidationValue,
+      midValue,
+      costBasis: position.costBasis,
+      realizedPnl: position.realizedPnl || 0,
+      unrealizedPnl: liquidationValue - position.costBasis,
+      unrealizedPnlMid: midValue - position.costBasis,
+      guaranteedPayout: Math.min(upBalance, downBalance),
+      timestamp: now,
+    };
+  }
+
+  /**
+   * Proceeds of selling `shares` best bid first
+   */
+  private sellIntoBids(book: OrderBookData, shares: number): number {
+    const { filled, avgPrice } = walkLevels(book.bids, shares);
+    return filled * avgPrice;
+  }
+
+  /**
+   * Book mid, or whichever side is quoted when the other is empty
+   */
+  private mid(book: OrderBookData): number {
+    if (book.bestBid > 0 && book.bestAsk > 0) return book.mid;
+    return book.bestBid > 0 ? book.bestBid : book.bestAsk;
+  }
+}
@@ -0,0 +1,204 @@
+// ============================================================================
+// QUOTE MANAGER (src/trading/QuoteManager.ts)
+// ============================================================================
+
+import { EventEmitter } from 'events';
+import { BotConfig } from "../config";
+import { OrderBookData, Quote, QuoteFill, StrategyContext, TrackedOrder } from "../types";
+import { OrderExecutor } from "./OrderExecutor";
+import { OrderManager } from "./OrderManager";
+import { Clock, systemClock } from "../utils/clock";
+
+interface DesiredQuote {
+  side: 'UP' | 'DOWN';
+  tokenId: string;
+  price: number;
+  shares: number;
+  tick: number;
+}
+
+/**
+ * Maker-side rebalancing: keeps one post-only bid per coin resting on the
+ * side the position is short of, instead of buying at the ask.
+ *
+ * The bid sits `baseSpread` below fair value (book mid when there's no fair
+ * value yet). The further the position is out of balance, the more of that
+ * spread is given up so the hedge fills sooner. Fills are emitted as `fill`
+ * events for the bot to apply to the position.
+ */
+export class QuoteManager extends EventEmitter {
+  private executor: OrderExecutor;
+  private orderManager: OrderManager;
+  private config: BotConfig['quoting'];
+  private clock: Clock;
+
+  private quotes: Map<string, Quote> = new Map();
+  private updating: Set<string> = new Set();
+
+  constructor(
+    executor: OrderExecutor,
+    orderManager: OrderManager,
+    config: BotConfig['quoting'],
+    clock: Clock = systemClock
+  ) {
+    super();
+    this.executor = executor;
+    this.orderManager = orderManager;
+    this.config = config;
+    this.clock = clock;
+
+    this.orderManager.on('fill', ({ order, shares, price }: { order: TrackedOrder; shares: number; price: number }) => {
+      this.handleFill(order, shares, price);
+    });
+  }
+
+  /**
+   * Bring the coin's resting bid in line with the current position, books and fair value
+   */
+  async update(context: StrategyContext): Promise<void> {
+    const { coin } = context;
+    if (this.updating.has(coin)) return;
+
+    this.updating.add(coin);
+    try {
+      const current = this.getLiveQuote(coin);
+      const desired = this.computeQuote(context);
+
+      if (!desired) {
+        if (current) await this.cancel(coin);
+        return;
+      }
+
+      if (current && !this.needsReplace(current, desired)) return;
+
+      if (current) await this.cancel(coin);
+
+      const orderId = await this.executor.placeQuote({
+        tokenId: desired.tokenId,
+        side: 'BUY',
+        shares: desired.shares,
+        price: desired.price,
+        coin,
+      });
+      if (!orderId) return;
+
+      this.quotes.set(coin, {
+        coin,
+        side: desired.side,
+        tokenId: desired.tokenId,
+        orderId,
+        price: desired.price,
+        shares: desired.shares,
+        placedAt: this.clock.now(),
+      });
+
+      console.log(`🏷️ ${coin}: Bidding ${desired.shares} ${desired.side} @ $${desired.price.toFixed(4)}`);
+    } finally {
+      this.updating.delete(coin);
+    }
+  }
+
+  async cancel(coin: string): Promise<void> {
+    const quote = this.quotes.get(coin);
+    if (!quote) return;
+
+    this.quotes.delete(coin);
+    await this.executor.cancelQuote(quote.orderId);
+  }
+
+  async cancelAll(): Promise<void> {
+    for (const coin of Array.from(this.quotes.keys())) {
+      await this.cancel(coin);
+    }
+  }
+
+  getQuote(coin: string): Quote | null {
+    return this.quotes.get(coin) || null;
+  }
+
+  /**
+   * Where the bid should be right now, or null if nothing should rest
+   */
+  private computeQuote(context: StrategyContext): DesiredQuote | null {
+    const { position, fairValue } = context;
+    if (!position) return null;
+
+    const timeRemaining = context.marketEndTime - this.clock.now();
+    if (timeRemaining <= this.config.cancelBeforeEndMs) return null;
+
+    const upBalance = position.upBalance || 0;
+    const downBalance = position.downBalance || 0;
+    const imbalance = Math.abs(upBalance - downBalance);
+    if (imbalance < 1) return null;
+
+    const side = upBalance < downBalance ? 'UP' : 'DOWN';
+    const book: OrderBookData = side === 'UP' ? context.upBook : context.downBook;
+    if (book.bestAsk <= 0 || !book.inSync) return null;
+
+    const tick = book.tickSize || 0.01;
+    const fair = fairValue ? (side === 'UP' ? fairValue.up : fairValue.down) : null;
+    const anchor = fair ?? (book.bestBid > 0 ? book.mid : book.bestAsk);
+
+    // Inventory skew: a fully one-sided position bids closest to the anchor
+    const imbalanceRatio = Math.min(1, imbalance / Math.max(position.shares, 1));
+    const offset = this.config.baseSpread * (1 - this.config.inventorySkew * imbalanceRatio);
+
+    // Never cross: the bid has to rest at least one tick under the ask
+    const price = this.roundDown(Math.min(anchor - offset, book.bestAsk - tick), tick);
+    if (price < tick) return null;
+
+    return {
+      side,
+      tokenId: side === 'UP' ? position.assetIds.up : position.assetIds.down,
+      price,
+      shares: Math.min(Math.floor(imbalance), this.config.maxShares),
+      tick,
+    };
+  }
+
+  private needsReplace(current: Quote, desired: DesiredQuote): boolean {
+    if (current.side !== desired.side) return true;
+
+    const order = this.orderManager.getOrder(current.orderId);
+    const remaining = current.shares - (order?.filledSize || 0);
+    if (desired.shares !== remaining) return true;
+
+    return Math.abs(desired.price - current.price) >= this.config.repriceTicks * desired.tick - 1e-9;
+  }
+
+  /**
+   * The coin's quote if it is still resting (the exchange may have cancelled or filled it)
+   */
+  private getLiveQuote(coin: string): Quote | null {
+    const quote = this.quotes.get(coin);
+    if (!quote) return null;
+
+    const order = this.orderManager.getOrder(quote.orderId);
+    if (!order || ['FILLED', 'CANCELLED', 'REJECTED'].includes(order.status)) {
+      this.quotes.delete(coin);
+      return null;
+    }
+    return quote;
+  }
+
+  /**
+   * Only quotes rest, so every resting fill is ours - including ones that land
+   * while the quote is being cancelled
+   */
+  private handleFill(order: TrackedOrder, shares: number, price: number): void {
+    if (!order.resting || !order.coin) return;
+
+    const fill: QuoteFill = {
+      coin: order.coin,
+      tokenId: order.tokenId,
+      orderId: order.id,
+      shares,
+      price,
+    };
+    this.emit('fill', fill);
+  }
+
+  private roundDown(price: number, tick: number): number {
+    return Math.round(Math.floor(price / tick + 1e-9) * tick * 1e6) / 1e6;
+  }
+}
@@ -0,0 +1,172 @@
+// ============================================================================
+// RISK SUPERVISOR (src/trading/RiskSupervisor.ts)
+// ============================================================================
+
+import { EventEmitter } from 'events';
+import { DateTime } from 'luxon';
+import { BotConfig } from "../config";
+import { DatabaseClient } from "../database/client";
+import { Position, RiskHalt, RiskSnapshot } from "../types";
+import { Clock, systemClock } from "../utils/clock";
+
+/**
+ * Account-level circuit breaker and kill switch.
+ *
+ * Marks P&L for the session and the ET calendar day from `positions`
+ * (closed P&L plus open positions valued at the bids) and halts all new
+ * entries and rebalances once the daily loss, drawdown or losing-streak
+ * limit is hit. Halts are persisted, so a restart comes back halted until
+ * it is explicitly resumed. Emits `halt` and `resume`.
+ */
+export class RiskSupervisor extends EventEmitter {
+  private config: BotConfig['risk'];
+  private db: DatabaseClient;
+  private markPosition: (position: Position) => number | null;
+  private clock: Clock;
+
+  private sessionStart: number;
+  private peakSessionPnl: number = 0;
+  private resumedAt: number = 0;
+  private halt: RiskHalt | null = null;
+  private snapshot: RiskSnapshot | null = null;
+
+  constructor(
+    config: BotConfig['risk'],
+    db: DatabaseClient,
+    markPosition: (position: Position) => number | null,
+    clock: Clock = systemClock
+  ) {
+    super();
+    this.config = config;
+    this.db = db;
+    this.markPosition = markPosition;
+    this.clock = clock;
+    this.sessionStart = clock.now();
+  }
+
+  /**
+   * Restore the persisted halt state (call once at startup)
+   */
+  async load(): Promise<void> {
+    const lastCleared = await this.db.getLastClearedRiskHalt();
+    this.resumedAt = lastCleared?.clearedAt || 0;
+    this.halt = await this.db.getActiveRiskHalt();
+
+    if (!this.halt) return;
+
+    const since = new Date(this.halt.haltedAt).toLocaleString('en-US', { timeZone: 'America/New_York' });
+    if (this.config.resumeOnStart) {
+      console.log(`\n♻️ Clearing trading halt from ${since} ET (${this.halt.reason})`);
+      await this.resume();
+    } else {
+      console.log(`\n⛔ Trading halted since ${since} ET: ${this.halt.reason}`);
+      console.log(`   Start with RISK_RESUME=true to resume`);
+    }
+  }
+
+  isHalted(): boolean {
+    return this.halt !== null;
+  }
+
+  getHalt(): RiskHalt | null {
+    return this.halt;
+  }
+
+  getSnapshot(): RiskSnapshot | null {
+    return this.snapshot;
+  }
+
+  /**
+   * Re-mark P&L and halt if any limit is breached
+   */
+  async evaluate(): Promise<RiskSnapshot> {
+    const snapshot = await this.measure();
+    this.snapshot = snapshot;
+
+    if (this.halt) return snapshot;
+
+    let reason: string | null = null;
+    if (snapshot.dailyPnl <= -this.config.maxDailyLoss) {
+      reason = `Daily loss $${(-snapshot.dailyPnl).toFixed(2)} reached the $${this.config.maxDailyLoss.toFixed(2)} limit`;
+    } else if (snapshot.drawdown >= this.config.maxDrawdown) {
+      reason = `Drawdown $${snapshot.drawdown.toFixed(2)} reached the $${this.config.maxDrawdown.toFixed(2)} limit`;
+    } else if (snapshot.consecutiveLosses >= this.config.maxConsecutiveLosses) {
+      reason = `${snapshot.consecutiveLosses} losing positions in a row`;
+    }
+
+    if (reason) {
+      await this.trip(reason, snapshot);
+    }
+    return snapshot;
+  }
+
+  /**
+   * Halt all trading (the kill switch). No-op while already halted.
+   */
+  async trip(reason: string, snapshot: RiskSnapshot | null = null): Promise<void> {
+    if (this.halt) return;
+
+    const halt: RiskHalt = { reason, snapshot, haltedAt: this.clock.now() };
+    halt.id = await this.db.insertRiskHalt(halt);
+    this.halt = halt;
+
+    console.log(`\n⛔ TRADING HALTED: ${reason}`);
+    if (snapshot) {
+      console.log(`   Session P&L: $${snapshot.sessionPnl.toFixed(2)} | Daily P&L: $${snapshot.dailyPnl.toFixed(2)}`);
+      console.log(`   Drawdown: $${snapshot.drawdown.toFixed(2)} | Losses in a row: ${snapshot.consecutiveLosses}`);
+    }
+    this.emit('halt', halt);
+  }
+
+  /**
+   * Lift the halt. Limits are measured afresh from here: the daily window
+   * restarts and the drawdown peak resets to the current session P&L.
+   */
+  async resume(): Promise<void> {
+    const now = this.clock.now();
+    await this.db.clearRiskHalts(now);
+
+    this.halt = null;
+    this.resumedAt = now;
+    this.peakSessionPnl = this.snapshot?.sessionPnl ?? this.peakSessionPnl;
+
+    console.log(`\n▶️ Trading resumed`);
+    this.emit('resume');
+  }
+
+  private async measure(): Promise<RiskSnapshot> {
+    const now = this.clock.now();
+    const dayStart = DateTime.fromMillis(now, { zone: 'America/New_York' }).startOf('day').toMillis();
+    const windowStart = Math.max(dayStart, this.resumedAt);
+
+    const closed = await this.db.getClosedPositionsSince(Math.min(this.sessionStart, windowStart));
+    const open = await this.db.getOpenPositions();
+
+    // Open positions count in full in both windows, marked at what selling now would fetch
+    const openPnl = open.reduce((sum, p) => {
+      const value = this.markPosition(p) ?? p.costBasis;
+      return sum + value - p.costBasis + (p.realizedPnl || 0);
+    }, 0);
+
+    const sessionClosed = closed.filter(p => (p.exitTime || 0) >= this.sessionStart);
+    const dailyClosed = closed.filter(p => (p.exitTime || 0) >= windowStart);
+
+    const sessionPnl = sessionClosed.reduce((sum, p) => sum + (p.pnl || 0), 0) + openPnl;
+    const dailyPnl = dailyClosed.reduce((sum, p) => sum + (p.pnl || 0), 0) + openPnl;
+
+    this.peakSessionPnl = Math.max(this.peakSessionPnl, sessionPnl);
+
+    let consecutiveLosses = 0;
+    for (let i = dailyClosed.length - 1; i >= 0 && (dailyClosed[i].pnl || 0) < 0; i--) {
+      consecutiveLosses++;
+    }
+
+    return {
+      sessionPnl,
+      dailyPnl,
+      drawdown: this.peakSessionPnl - sessionPnl,
+      consecutiveLosses,
+      timestamp: now,
+    };
+  }
+}
@@ -0,0 +1,236 @@
+// ============================================================================
+// SETTLEMENT WORKER (src/trading/SettlementWorker.ts)
+// ============================================================================
+
+import { BigNumber, Contract, Signer, constants, providers, utils } from 'ethers';
+import { BotConfig } from "../config";
+import { DatabaseClient } from "../database/client";
+import { Position } from "../types";
+import { backoffDelay } from "../utils/helpers";
+import { Clock, TimerHandle, systemClock } from "../utils/clock";
+
+const CONDITIONAL_TOKENS_ABI = [
+  'function redeemPositions(address collateralToken, bytes32 parentCollectionId, bytes32 conditionId, uint256[] indexSets)',
+  'function payoutDenominator(bytes32 conditionId) view returns (uint256)',
+  'function balanceOf(address owner, uint256 id) view returns (uint256)',
+  'event PayoutRedemption(address indexed redeemer, address indexed collateralToken, bytes32 indexed parentCollectionId, bytes32 conditionId, uint256[] indexSets, uint256 payout)',
+];
+
+// Binary markets: index set 1 = first outcome (UP), 2 = second outcome (DOWN)
+const BINARY_INDEX_SETS = [1, 2];
+const COLLATERAL_DECIMALS = 6;
+const ERROR_SELECTOR = '0x08c379a0';  // Error(string)
+
+/**
+ * Redeems winning outcome tokens for USDC once a market has resolved on-chain.
+ *
+ * Closed positions are grouped by condition ID (one redemption pays out every
+ * token we hold for that market) and each redemption is recorded in the
+ * `redemptions` table. A market whose redemption fails is retried with
+ * exponential backoff, up to `maxAttempts` times. The signer and contract
+ * addresses are injected, so the worker runs just as well against a local
+ * Hardhat/Anvil node.
+ */
+export class SettlementWorker {
+  private db: DatabaseClient;
+  private signer: Signer;
+  private options: BotConfig['settlement'];
+  private ctf: Contract;
+  private clock: Clock;
+
+  private timer: TimerHandle | null = null;
+  private running: boolean = false;
+
+  constructor(db: DatabaseClient, signer: Signer, options: BotConfig['settlement'], clock: Clock = systemClock) {
+    if (!signer.provider) {
+      throw new Error('SettlementWorker requires a signer connected to a provider');
+    }
+
+    this.db = db;
+    this.signer = signer;
+    this.options = options;
+    this.ctf = new Contract(options.conditionalTokensAddress, CONDITIONAL_TOKENS_ABI, signer);
+    this.clock = clock;
+  }
+
+  start(): void {
+    if (this.timer) return;
+
+    this.timer = this.clock.setInterval(() => {
+      this.run().catch(err => console.error('❌ Settlement run failed:', err.message));
+    }, this.options.intervalMs);
+  }
+
+  stop(): void {
+    if (this.timer) {
+      this.clock.clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * One settlement pass: confirm in-flight redemptions, then redeem newly resolved markets
+   */
+  async run(): Promise<void> {
+    if (this.running) return;
+    this.running = true;
+
+    try {
+      await this.checkPendingRedemptions();
+
+      const failures = new Map(
+        (await this.db.getRedemptionFailures()).map(failure => [failure.conditionId, failure])
+      );
+
+      const positions = await this.db.getPositionsAwaitingRedemption();
+      const byCondition = new Map<string, Position[]>();
+      for (const position of positions) {
+        if (!byCondition.has(position.conditionId!)) {
+          byCondition.set(position.conditionId!, []);
+        }
+        byCondition.get(position.conditionId!)!.push(position);
+      }
+
+      for (const [conditionId, group] of byCondition.entries()) {
+        const failed = failures.get(conditionId);
+        if (failed) {
+          if (failed.failures >= this.options.maxAttempts) continue;
+          if (failed.msSinceLastFailure < backoffDelay(failed.failures, this.options.retryBaseMs, this.options.retryMaxMs)) continue;
+        }
+
+        await this.redeem(conditionId, group, (failed?.failures || 0) + 1);
+      }
+    } finally {
+      this.running = false;
+    }
+  }
+
+  /**
+   * Redeem one condition. Any failure, RPC reads included, is recorded against
+   * the condition so it backs off without holding up the rest of the pass.
+   */
+  private async redeem(conditionId: string, positions: Position[], attempt: number): Promise<void> {
+    const label = `${positions[0].coin} ${positions[0].marketSlug}`;
+    const positionIds = positions.map(p => p.id);
+    let redemptionId: number | null = null;
+
+    try {
+      const denominator: BigNumber = await this.ctf.payoutDenominator(conditionId);
+      if (denominator.isZero()) {
+        // Reported by the oracle some time after the hour closes
+        return;
+      }
+
+      const owner = await this.signer.getAddress();
+
+      const tokenIds = new Set<string>();
+      positions.forEach(p => {
+        tokenIds.add(p.assetIds.up);
+        tokenIds.add(p.assetIds.down);
+      });
+
+      let held = BigNumber.from(0);
+      for (const tokenId of tokenIds) {
+        const balance: BigNumber = await this.ctf.balanceOf(owner, tokenId);
+        held = held.add(balance);
+      }
+
+      if (held.isZero()) {
+        console.log(`💤 ${label}: no outcome tokens left to redeem`);
+        await this.db.insertRedemption({ conditionId, positionIds, amount: 0, status: 'SKIPPED' });
+        return;
+      }
+
+      console.log(`🏦 Redeeming ${label} (condition ${conditionId.slice(0, 10)}...)`);
+
+      const tx = await this.ctf.redeemPositions(
+        this.options.collateralAddress,
+        constants.HashZero,
+        conditionId,
+        BINARY_INDEX_SETS
+      );
+
+      redemptionId = await this.db.insertRedemption({
+        conditionId,
+        positionIds,
+        txHash: tx.hash,
+        status: 'PENDING',
+      });
+
+      const receipt: providers.TransactionReceipt = await tx.wait();
+      const amount = this.parsePayout(receipt);
+
+      await this.db.updateRedemption(redemptionId, { amount, status: 'CONFIRMED' });
+      console.log(`✅ ${label}: redeemed $${amount.toFixed(2)} USDC (tx ${tx.hash})`);
+    } catch (error: any) {
+      const message = this.revertReason(error) || error.reason || error.message;
+      console.error(`❌ Redemption failed for ${label} (attempt ${attempt}/${this.options.maxAttempts}):`, message);
+      if (attempt >= this.options.maxAttempts) {
+        console.error(`🚫 Giving up on redeeming ${label} - redeem condition ${conditionId} by hand`);
+      }
+
+      if (redemptionId !== null) {
+        await this.db.updateRedemption(redemptionId, { status: 'FAILED', error: message });
+      } else {
+        await this.db.insertRedemption({ conditionId, positionIds, status: 'FAILED', error: message });
+      }
+    }
+  }
+
+  /**
+   * Settle redemptions sent before a restart
+   */
+  private async checkPendingRedemptions(): Promise<void> {
+    for (const row of await this.db.getPendingRedemptions()) {
+      if (!row.tx_hash) continue;
+
+      const receipt = await this.signer.provider!.getTransactionReceipt(row.tx_hash);
+      if (!receipt) continue;
+
+      if (receipt.status === 1) {
+        await this.db.updateRedemption(row.id, { amount: this.parsePayout(receipt), status: 'CONFIRMED' });
+      } else {
+        await this.db.updateRedemption(row.id, { status: 'FAILED', error: 'Transaction reverted' });
+      }
+    }
+  }
+
+  /**
+   * The contract's revert reason, which ethers v5 buries under its
+   * "cannot estimate gas" error. Ganache reports it decoded, other nodes as
+   * Error(string) revert data.
+   */
+  private revertReason(error: any): string | null {
+    for (let cause = error; cause; cause = cause.error) {
+      if (typeof cause.data?.reason === 'string') return cause.data.reason;
+      if (typeof cause.data === 'string' && cause.data.startsWith(ERROR_SELECTOR)) {
+        try {
+          return utils.defaultAbiCoder.decode(['string'], '0x' + cause.data.slice(ERROR_SELECTOR.length))[0];
+        } catch {
+          // Not a plain Error(string) revert
+        }
+      }
+    }
+    return null;
+  }
+
+  /**
+   * USDC paid out, from the PayoutRedemption event in the receipt
+   */
+  private parsePayout(receipt: providers.TransactionReceipt): number {
+    for (const log of receipt.logs) {
+      if (log.address.toLowerCase() !== this.options.conditionalTokensAddress.toLowerCase()) continue;
+
+      try {
+        const parsed = this.ctf.interface.parseLog(log);
+        if (parsed.name === 'PayoutRedemption') {
+          return parseFloat(utils.formatUnits(parsed.args.payout, COLLATERAL_DECIMALS));
+        }
+      } catch {
+        // Not a CTF event we know about
+      }
+    }
+
+    return 0;
+  }
+}
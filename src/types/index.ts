@@ -28,6 +28,7 @@ export interface PolymarketMarket {
   id: string;
   question: string;
   slug: string;
+  conditionId?: string;
   clobTokenIds: string;
   active: boolean;
   endDate: string;
@@ -36,12 +37,42 @@ export interface PolymarketMarket {
 
 export interface OrderBookData {
   assetId: string;
-  bids: Array<{ price: number; size: number }>;
-  asks: Array<{ price: number; size: number }>;
+  bids: Array<{ price: number; size: number }>; // best (highest) first
+  asks: Array<{ price: number; size: number }>; // best (lowest) first
   bestBid: number;
   bestAsk: number;
   spread: number;
   mid: number;
+  bidDepth: number; // total shares resting on the bid side
+  askDepth: number; // total shares resting on the ask side
+  timestamp: number;
+  tickSize?: number;
+  lastTradePrice?: number;
+  inSync: boolean;  // false when incremental updates disagree with the exchange's top of book
+  tradeStats?: TradeStats;
+}
+
+export interface TapeTrade {
+  assetId: string;
+  market: string;
+  price: number;
+  size: number;
+  side: 'BUY' | 'SELL'; // aggressor side
+  feeRateBps: number;
+  timestamp: number;
+}
+
+export interface TradeStats {
+  assetId: string;
+  windowMs: number;
+  tradeCount: number;
+  volume: number;
+  buyVolume: number;
+  sellVolume: number;
+  buyRatio: number;         // buy-aggressor share of volume, 0.5 when there are no trades
+  vwap: number;             // 0 when there are no trades
+  lastTradePrice?: number;
+  msSinceLastTrade: number; // Infinity when there are no trades
 }
 
 export interface Position {
@@ -67,8 +98,20 @@ export interface Position {
     down: string;
   };
   confidence: number;
+  signalReasons?: string[];
   upBalance?: number;
   downBalance?: number;
+  outcome?: 'UP' | 'DOWN';
+  payout?: number;
+  conditionId?: string;
+  realizedPnl?: number;     // locked in by sells before expiry; costBasis only covers shares still held
+}
+
+export interface MarketResolution {
+  outcome: 'UP' | 'DOWN';
+  source: 'GAMMA' | 'BINANCE';
+  openPrice?: number;
+  closePrice?: number;
 }
 
 export interface TradeSignal {
@@ -88,6 +131,185 @@ export interface RebalanceDecision {
   reason: string;
 }
 
+/**
+ * What a strategy wants done. The bot decides how (executor, sizing limits, persistence).
+ */
+export interface TradeIntent {
+  action: 'BUY' | 'SELL';
+  side: 'UP' | 'DOWN';
+  shares: number;
+  price: number;        // limit price (max for BUY, min for SELL)
+  reason: string;
+  confidence?: number;  // prediction behind an entry, stored on the position and trade
+  reasons?: string[];
+}
+
+/**
+ * Model price of each outcome token (probability of that outcome)
+ */
+export interface FairValue {
+  up: number;
+  down: number;
+  volatility: number;           // 1m log-return volatility used (fraction)
+  minutesRemaining: number;
+}
+
+/**
+ * Everything a strategy hook can see about one market
+ */
+export interface StrategyContext {
+  coin: string;
+  marketSlug: string;
+  marketEndTime: number;
+  minutesRemaining: number;
+  position: Position | null;    // null until the market has been entered
+  marketData: MarketData;
+  upBook: OrderBookData;
+  downBook: OrderBookData;
+  fairValue: FairValue | null;  // null until there's enough price history; edge = fair - bestAsk
+}
+
+/**
+ * UP and DOWN asks that together cost less than the $1 a complete set pays out
+ */
+export interface ArbitrageOpportunity {
+  coin: string;
+  marketSlug: string;
+  upAsk: number;            // best asks when detected
+  downAsk: number;
+  shares: number;           // pairs fillable while every pair stays profitable
+  upLimit: number;          // worst ask level each leg has to reach for `shares`
+  downLimit: number;
+  cost: number;             // USDC for `shares` pairs, fees included
+  edge: number;             // payout - cost
+  timestamp: number;
+}
+
+export type ArbitrageStatus = 'DETECTED' | 'SKIPPED' | 'EXECUTED' | 'PARTIAL' | 'FAILED';
+
+/**
+ * Result of checking a buy against the `risk` limits
+ */
+export interface RiskVerdict {
+  allowed: boolean;
+  reason?: string;
+  exposure: number;         // open cost basis before the buy
+  openPositions: number;
+}
+
+/**
+ * Coin/date window and page for list queries (times in ms)
+ */
+export interface ListFilter {
+  coin?: string;
+  from?: number;
+  to?: number;
+  limit: number;
+  offset: number;
+}
+
+export interface Page<T> {
+  items: T[];
+  total: number;    // matching rows across all pages
+  limit: number;
+  offset: number;
+}
+
+/**
+ * An open position marked against the current Polymarket books
+ */
+export interface PositionValuation {
+  positionId: string;
+  coin: string;
+  marketSlug: string;
+  upBalance: number;
+  downBalance: number;
+  upBid: number;
+  downBid: number;
+  upMid: number;
+  downMid: number;
+  liquidationValue: number;   // selling every share into the bids now (depth-limited)
+  midValue: number;           // every share marked at its mid
+  costBasis: number;
+  realizedPnl: number;        // already booked by early sells
+  unrealizedPnl: number;      // liquidationValue - costBasis
+  unrealizedPnlMid: number;   // midValue - costBasis
+  guaranteedPayout: number;   // matched UP/DOWN pairs, paid $1 whatever the outcome
+  timestamp: number;
+}
+
+/**
+ * A coin whose Binance price or Polymarket books stopped updating
+ */
+export interface FeedAlert {
+  coin: string;
+  reason: string;
+  timestamp: number;
+}
+
+/**
+ * P&L the risk supervisor measures its limits against
+ */
+export interface RiskSnapshot {
+  sessionPnl: number;         // since the bot started
+  dailyPnl: number;           // since midnight ET, or since trading last resumed that day
+  drawdown: number;           // session peak minus current session P&L
+  consecutiveLosses: number;  // losing closes in a row within the daily window
+  timestamp: number;
+}
+
+/**
+ * A trading halt; stays in force (across restarts) until clearedAt is set
+ */
+export interface RiskHalt {
+  id?: number;
+  reason: string;
+  snapshot: RiskSnapshot | null;  // null when halted by hand
+  haltedAt: number;
+  clearedAt?: number;
+}
+
+export type RiskCheck = 'ENTRY' | 'BUY' | 'ARBITRAGE' | 'QUOTE';
+
+export interface RiskRejection {
+  check: RiskCheck;
+  coin: string;
+  positionId?: string;
+  side?: 'UP' | 'DOWN';     // unset for arbitrage, which buys both
+  shares: number;
+  price: number;
+  cost: number;
+  exposure: number;
+  openPositions: number;
+  reason: string;
+  timestamp: number;
+}
+
+export type OperatorActionType =
+  | 'PAUSE'
+  | 'RESUME'
+  | 'FLATTEN'
+  | 'ENABLE_COIN'
+  | 'DISABLE_COIN'
+  | 'REFRESH_MARKETS'
+  | 'RESUME_RISK';
+
+/**
+ * Audit record of one operator control request, successful or not
+ */
+export interface OperatorAction {
+  id?: number;
+  operator: string;
+  action: OperatorActionType;
+  coin?: string;
+  positionId?: string;
+  params?: any;
+  success: boolean;
+  result?: any;
+  error?: string;
+  timestamp: number;
+}
+
 export interface MarketSession {
   coin: string;
   market: PolymarketMarket;
@@ -96,3 +318,106 @@ export interface MarketSession {
   endTime: number;
   active: boolean;
 }
+
+export interface OrderRequest {
+  tokenId: string;
+  side: 'BUY' | 'SELL';
+  shares: number;
+  price: number;
+  coin?: string;
+}
+
+export type OrderStatus = 'OPEN' | 'PARTIALLY_FILLED' | 'FILLED' | 'CANCELLED' | 'REJECTED';
+
+export interface TrackedOrder {
+  id: string;
+  coin?: string;
+  tokenId: string;
+  side: 'BUY' | 'SELL';
+  price: number;
+  size: number;
+  filledSize: number;
+  avgFillPrice: number;
+  status: OrderStatus;
+  mode: 'paper' | 'live';
+  createdAt: number;
+  updatedAt: number;
+  error?: string;
+  resting?: boolean;    // maker quote: left on the book until its owner cancels it, no TTL
+}
+
+/**
+ * A resting maker bid placed to rebalance a position
+ */
+export interface Quote {
+  coin: string;
+  side: 'UP' | 'DOWN';
+  tokenId: string;
+  orderId: string;
+  price: number;
+  shares: number;
+  placedAt: number;
+}
+
+export interface QuoteFill {
+  coin: string;
+  tokenId: string;
+  orderId: string;
+  shares: number;
+  price: number;
+}
+
+export interface MarketSnapshot {
+  coin: string;
+  marketSlug: string;
+  price: number;
+  priceChange1m: number;
+  priceChange5m: number;
+  priceChange15m: number;
+  volatility: number;
+  upBestBid: number;
+  upBestAsk: number;
+  downBestBid: number;
+  downBestAsk: number;
+  realizedVolatility?: number;
+  fairUp?: number;
+  fairDown?: number;
+  timestamp: number;
+}
+
+export interface BacktestMarketResult {
+  coin: string;
+  marketSlug: string;
+  entrySide: 'UP' | 'DOWN';
+  entryPrice: number;
+  entryTime: number;
+  marketEndTime: number;
+  outcome: 'UP' | 'DOWN';
+  upBalance: number;
+  downBalance: number;
+  costBasis: number;
+  payout: number;
+  pnl: number;
+  trades: number;          // entry + rebalances that filled
+  skippedTrades: number;   // decisions the simulator could not fill
+}
+
+export interface BacktestReport {
+  from: number;
+  to: number;
+  markets: BacktestMarketResult[];
+  totalPnl: number;
+  totalCost: number;
+  winRate: number;         // share of markets with positive P&L, 0-1
+  maxDrawdown: number;     // largest peak-to-trough drop of cumulative P&L, in USDC
+  totalTrades: number;
+  byCoin: Record<string, { markets: number; pnl: number; winRate: number; trades: number }>;
+}
+
+export interface ExecutionResult {
+  success: boolean;
+  filledShares: number;
+  avgPrice: number;
+  orderId?: string;
+  error?: string;
+}
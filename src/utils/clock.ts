@@ -0,0 +1,132 @@
+// ============================================================================
+// CLOCK (src/utils/clock.ts)
+// ============================================================================
+
+export type TimerHandle = number | NodeJS.Timeout;
+
+/**
+ * Source of time and timers. Code that takes a Clock instead of calling
+ * Date.now()/setTimeout directly can be driven by recorded or simulated time.
+ */
+export interface Clock {
+  now(): number;
+  setTimeout(callback: () => void, delayMs: number): TimerHandle;
+  clearTimeout(handle: TimerHandle | null | undefined): void;
+  setInterval(callback: () => void, intervalMs: number): TimerHandle;
+  clearInterval(handle: TimerHandle | null | undefined): void;
+}
+
+/**
+ * Wall-clock time and Node timers
+ */
+export class SystemClock implements Clock {
+  now(): number {
+    return Date.now();
+  }
+
+  setTimeout(callback: () => void, delayMs: number): TimerHandle {
+    return setTimeout(callback, delayMs);
+  }
+
+  clearTimeout(handle: TimerHandle | null | undefined): void {
+    if (handle) clearTimeout(handle as NodeJS.Timeout);
+  }
+
+  setInterval(callback: () => void, intervalMs: number): TimerHandle {
+    return setInterval(callback, intervalMs);
+  }
+
+  clearInterval(handle: TimerHandle | null | undefined): void {
+    if (handle) clearInterval(handle as NodeJS.Timeout);
+  }
+}
+
+export const systemClock: Clock = new SystemClock();
+
+interface VirtualTimer {
+  id: number;
+  dueAt: number;
+  intervalMs: number | null;
+  callback: () => void;
+}
+
+/**
+ * Time only moves when `advanceTo`/`advanceBy` is called. Timers due in the
+ * skipped span fire in order, each at its own scheduled time.
+ */
+export class VirtualClock implements Clock {
+  private currentTime: number;
+  private timers: Map<number, VirtualTimer> = new Map();
+  private nextId: number = 1;
+
+  constructor(startTime: number) {
+    this.currentTime = startTime;
+  }
+
+  now(): number {
+    return this.currentTime;
+  }
+
+  setTimeout(callback: () => void, delayMs: number): TimerHandle {
+    return this.schedule(callback, Math.max(0, delayMs), null);
+  }
+
+  clearTimeout(handle: TimerHandle | null | undefined): void {
+    if (typeof handle === 'number') this.timers.delete(handle);
+  }
+
+  setInterval(callback: () => void, intervalMs: number): TimerHandle {
+    return this.schedule(callback, Math.max(1, intervalMs), Math.max(1, intervalMs));
+  }
+
+  clearInterval(handle: TimerHandle | null | undefined): void {
+    this.clearTimeout(handle);
+  }
+
+  /**
+   * Move time forward to `time`, firing every timer due on the way.
+   * Pending I/O callbacks get a turn after each timer so async handlers can progress.
+   */
+  async advanceTo(time: number): Promise<void> {
+    while (true) {
+      const next = this.nextDue();
+      if (!next || next.dueAt > time) break;
+
+      this.currentTime = Math.max(this.currentTime, next.dueAt);
+      if (next.intervalMs !== null) {
+        next.dueAt += next.intervalMs;
+      } else {
+        this.timers.delete(next.id);
+      }
+
+      next.callback();
+      await new Promise(resolve => setImmediate(resolve));
+    }
+
+    this.currentTime = Math.max(this.currentTime, time);
+  }
+
+  advanceBy(ms: number): Promise<void> {
+    return this.advanceTo(this.currentTime + ms);
+  }
+
+  pendingTimers(): number {
+    return this.timers.size;
+  }
+
+  private schedule(callback: () => void, delayMs: number, intervalMs: number | null): number {
+    const id = this.nextId++;
+    this.timers.set(id, { id, dueAt: this.currentTime + delayMs, intervalMs, callback });
+    return id;
+  }
+
+  private nextDue(): VirtualTimer | null {
+    let next: VirtualTimer | null = null;
+    for (const timer of this.timers.values()) {
+      if (!next || timer.dueAt < next.dueAt || (timer.dueAt === next.dueAt && timer.id < next.id)) {
+        next = timer;
+      }
+    }
+    return next;
+  }
+}
@@ -32,6 +32,13 @@ export function sleep(ms: number): Promise<void> {
   return new Promise(resolve => setTimeout(resolve, ms));
 }
 
+/**
+ * Exponential backoff delay for the given (1-based) attempt, capped at maxMs
+ */
+export function backoffDelay(attempt: number, baseMs: number, maxMs: number): number {
+  return Math.min(baseMs * Math.pow(2, Math.max(0, attempt - 1)), maxMs);
+}
+
 export async function retry<T>(
   fn: () => Promise<T>,
   maxAttempts: number = 3,
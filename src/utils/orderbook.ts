@@ -0,0 +1,42 @@
+import { OrderBookData } from '../types';
+
+type Level = { price: number; size: number };
+
+/**
+ * Walk a best-first ladder for a given size.
+ * Returns the shares that could be filled and their depth-weighted average price.
+ */
+export function walkLevels(levels: Level[], shares: number): { filled: number; avgPrice: number; worstPrice: number } {
+  let remaining = shares;
+  let notional = 0;
+  let worstPrice = 0;
+
+  for (const level of levels) {
+    if (remaining <= 0) break;
+    const take = Math.min(level.size, remaining);
+    notional += take * level.price;
+    remaining -= take;
+    worstPrice = level.price;
+  }
+
+  const filled = shares - remaining;
+  return {
+    filled,
+    avgPrice: filled > 0 ? notional / filled : 0,
+    worstPrice,
+  };
+}
+
+/**
+ * Estimated slippage (%) of a market order of `shares` versus the top of book
+ */
+export function estimateSlippage(book: OrderBookData, side: 'BUY' | 'SELL', shares: number): number {
+  const levels = side === 'BUY' ? book.asks : book.bids;
+  const top = side === 'BUY' ? book.bestAsk : book.bestBid;
+  if (top <= 0) return 0;
+
+  const { filled, avgPrice } = walkLevels(levels, shares);
+  if (filled === 0) return 0;
+
+  return (Math.abs(avgPrice - top) / top) * 100;
+}
@@ -0,0 +1,113 @@
+// ============================================================================
+// API SERVER TESTS (test/ApiServer.test.ts)
+// ============================================================================
+//
+// Control endpoints over HTTP against a stand-in bot, with operator actions
+// kept in memory instead of the `operator_actions` table.
+
+import { afterEach, beforeEach, describe, it, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { ApiServer } from '../src/api/ApiServer';
+import { BotConfig } from '../src/config';
+import { TradingBot } from '../src/core/TradingBot';
+import { OperatorAction } from '../src/types';
+
+const PORT = 8556;
+const TOKEN = 'secret-token';
+
+class FakeBot {
+  paused: Array<string | undefined> = [];
+  actions: OperatorAction[] = [];
+
+  getDatabase() {
+    return {
+      insertOperatorAction: async (action: OperatorAction) => {
+        this.actions.push(action);
+      },
+    };
+  }
+
+  pause(coin?: string) {
+    this.paused.push(coin);
+    return { paused: coin ?? 'all' };
+  }
+}
+
+function post(path: string, body: any, token?: string): Promise<Response> {
+  return fetch(`http://127.0.0.1:${PORT}${path}`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      ...(token ? { Authorization: `Bearer ${token}` } : {}),
+    },
+    body: JSON.stringify(body),
+  });
+}
+
+describe('ApiServer control endpoints', () => {
+  let bot: FakeBot;
+  let server: ApiServer;
+
+  beforeEach(async () => {
+    // Every request logs a line; keep them out of the runner's stdout
+    mock.method(console, 'log', () => {});
+    bot = new FakeBot();
+    const config: BotConfig['api'] = {
+      enabled: true,
+      host: '127.0.0.1',
+      port: PORT,
+      corsOrigin: '',
+      defaultPageSize: 50,
+      maxPageSize: 500,
+      operators: { [TOKEN]: 'alice' },
+    };
+    server = new ApiServer(bot as unknown as TradingBot, config);
+    await server.start();
+  });
+
+  afterEach(async () => {
+    await server.stop();
+    mock.restoreAll();
+  });
+
+  it('runs an authenticated action and audits it under the operator', async () => {
+    const res = await post('/api/control/pause', { coin: 'btc' }, TOKEN);
+
+    assert.equal(res.status, 200);
+    assert.deepEqual(bot.paused, ['BTC']);
+    assert.equal(bot.actions.length, 1);
+    assert.equal(bot.actions[0].operator, 'alice');
+    assert.equal(bot.actions[0].action, 'PAUSE');
+    assert.equal(bot.actions[0].success, true);
+  });
+
+  it('refuses an unknown token and audits it without the request body', async () => {
+    const res = await post('/api/control/pause', { coin: 'BTC', note: 'x'.repeat(10000) }, 'wrong-token');
+
+    assert.equal(res.status, 401);
+    assert.deepEqual(bot.paused, []);
+    assert.equal(bot.actions.length, 1);
+    const [action] = bot.actions;
+    assert.equal(action.operator, 'anonymous');
+    assert.equal(action.success, false);
+    assert.equal(action.error, 'Unknown operator token');
+    assert.equal(action.params, undefined);
+  });
+
+  it('records the route params of a refused call', async () => {
+    const res = await post('/api/control/coins/eth/enable', {});
+
+    assert.equal(res.status, 401);
+    assert.equal(bot.actions[0].coin, 'ETH');
+    assert.equal(bot.actions[0].error, 'Missing bearer token');
+  });
+
+  it('stops auditing a client that keeps getting refused', async () => {
+    for (let i = 0; i < 25; i++) {
+      const res = await post('/api/control/pause', {});
+      assert.equal(res.status, 401);
+    }
+
+    assert.equal(bot.actions.length, 20);
+  });
+});
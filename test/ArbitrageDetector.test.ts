@@ -0,0 +1,100 @@
+// ============================================================================
+// ARBITRAGE DETECTOR TESTS (test/ArbitrageDetector.test.ts)
+// ============================================================================
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { BotConfig } from '../src/config';
+import { ArbitrageDetector } from '../src/trading/ArbitrageDetector';
+import { OrderBookData } from '../src/types';
+
+function askBook(asks: [number, number][]): OrderBookData {
+  const levels = asks.map(([price, size]) => ({ price, size }));
+  return {
+    assetId: 'asset',
+    bids: [],
+    asks: levels,
+    bestBid: 0,
+    bestAsk: levels[0]?.price ?? 0,
+    spread: 0,
+    mid: 0,
+    bidDepth: 0,
+    askDepth: levels.reduce((sum, l) => sum + l.size, 0),
+    timestamp: 0,
+    inSync: true,
+  };
+}
+
+function detector(overrides: Partial<BotConfig['arbitrage']> = {}): ArbitrageDetector {
+  return new ArbitrageDetector({
+    enabled: true,
+    execute: false,
+    feeBps: 0,
+    minEdgePerShare: 0.01,
+    minShares: 1,
+    maxCostUSDC: 1000,
+    cooldownMs: 5000,
+    ...overrides,
+  });
+}
+
+describe('ArbitrageDetector', () => {
+  it('ignores books that cost a dollar or more per pair', () => {
+    const result = detector().evaluate('BTC', 'btc', askBook([[0.50, 100]]), askBook([[0.50, 100]]), 0);
+    assert.equal(result, null);
+  });
+
+  it('costs each level at its own price, fractional leftovers included', () => {
+    const result = detector().evaluate(
+      'BTC', 'btc',
+      askBook([[0.40, 10.5], [0.45, 10]]),
+      askBook([[0.50, 20]]),
+      0
+    )!;
+
+    // 10.5 pairs at 0.90, then 9.5 more at 0.95 before the DOWN level runs out
+    assert.equal(result.shares, 20);
+    assert.equal(result.cost.toFixed(6), (10.5 * 0.90 + 9.5 * 0.95).toFixed(6));
+    assert.equal(result.edge.toFixed(6), (20 - 10.5 * 0.90 - 9.5 * 0.95).toFixed(6));
+    assert.equal(result.upLimit, 0.45);
+    assert.equal(result.downLimit, 0.50);
+  });
+
+  it('stops at the first pair that no longer clears the minimum edge', () => {
+    const result = detector({ minEdgePerShare: 0.06 }).evaluate(
+      'BTC', 'btc',
+      askBook([[0.40, 5], [0.46, 50]]),
+      askBook([[0.50, 50]]),
+      0
+    )!;
+
+    assert.equal(result.shares, 5);
+    assert.equal(result.upLimit, 0.40);
+  });
+
+  it('stops where the budget runs out instead of moving to the next level', () => {
+    const result = detector({ maxCostUSDC: 4.5 }).evaluate(
+      'BTC', 'btc',
+      askBook([[0.40, 10], [0.41, 10]]),
+      askBook([[0.50, 10], [0.51, 10]]),
+      0
+    )!;
+
+    assert.equal(result.shares, 5);
+    assert.equal(result.cost.toFixed(6), '4.500000');
+    assert.equal(result.upLimit, 0.40);
+    assert.equal(result.downLimit, 0.50);
+  });
+
+  it('includes fees in the pair cost', () => {
+    const result = detector({ feeBps: 200 }).evaluate('BTC', 'btc', askBook([[0.45, 10]]), askBook([[0.50, 10]]), 0)!;
+
+    assert.equal(result.shares, 10);
+    assert.equal(result.cost.toFixed(6), (10 * 0.95 * 1.02).toFixed(6));
+  });
+
+  it('skips opportunities thinner than minShares', () => {
+    const result = detector({ minShares: 5 }).evaluate('BTC', 'btc', askBook([[0.40, 4.5]]), askBook([[0.50, 10]]), 0);
+    assert.equal(result, null);
+  });
+});
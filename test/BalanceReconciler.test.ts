@@ -0,0 +1,163 @@
+// ============================================================================
+// BALANCE RECONCILER TESTS (test/BalanceReconciler.test.ts)
+// ============================================================================
+
+import { beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { BotConfig } from '../src/config';
+import { DatabaseClient } from '../src/database/client';
+import { PolymarketClient } from '../src/polymarket/PolymarketClient';
+import { BalanceReconciler } from '../src/trading/BalanceReconciler';
+import { OrderManager } from '../src/trading/OrderManager';
+import { Position } from '../src/types';
+
+const UP_TOKEN = '111';
+const DOWN_TOKEN = '222';
+
+/**
+ * Wallet balances and open orders as the CLOB would report them
+ */
+class FakeWallet {
+  balances: Map<string, number> = new Map();
+  openOrders: Map<string, any[]> = new Map();
+  cancelled: string[] = [];
+
+  async getTokenBalance(tokenId: string): Promise<number | null> {
+    return this.balances.has(tokenId) ? this.balances.get(tokenId)! : null;
+  }
+
+  async getOpenOrdersForAsset(tokenId: string): Promise<any[] | null> {
+    return this.openOrders.get(tokenId) || [];
+  }
+
+  async cancelOrder(orderId: string): Promise<boolean> {
+    this.cancelled.push(orderId);
+    return true;
+  }
+}
+
+class InMemoryPositionStore {
+  updates: Array<{ id: string; updates: Partial<Position> }> = [];
+  discrepancies: any[] = [];
+
+  async updatePosition(id: string, updates: Partial<Position>): Promise<void> {
+    this.updates.push({ id, updates });
+  }
+
+  async insertBalanceDiscrepancy(discrepancy: any): Promise<void> {
+    this.discrepancies.push(discrepancy);
+  }
+}
+
+function openPosition(upBalance: number, downBalance: number): Position {
+  return {
+    id: 'BTC_test',
+    coin: 'BTC',
+    marketId: '0xmarket',
+    marketSlug: 'btc-up-or-down',
+    side: 'UP',
+    entryPrice: 0.5,
+    shares: upBalance + downBalance,
+    costBasis: (upBalance + downBalance) * 0.5,
+    entryTime: 0,
+    hourOpenPrice: 100000,
+    marketEndTime: 3600000,
+    status: 'OPEN',
+    assetIds: { up: UP_TOKEN, down: DOWN_TOKEN },
+    confidence: 60,
+    upBalance,
+    downBalance,
+  };
+}
+
+describe('BalanceReconciler', () => {
+  let wallet: FakeWallet;
+  let db: InMemoryPositionStore;
+  let tracked: Set<string>;
+  let options: BotConfig['reconciliation'];
+
+  function createReconciler(): BalanceReconciler {
+    const orderManager = { getOrder: (id: string) => (tracked.has(id) ? { id } : undefined) };
+    return new BalanceReconciler(
+      wallet as unknown as PolymarketClient,
+      db as unknown as DatabaseClient,
+      orderManager as unknown as OrderManager,
+      options
+    );
+  }
+
+  beforeEach(() => {
+    wallet = new FakeWallet();
+    db = new InMemoryPositionStore();
+    tracked = new Set();
+    options = { intervalMs: 60000, toleranceShares: 0.01, autoCorrect: true };
+  });
+
+  it('leaves matching fractional balances alone', async () => {
+    wallet.balances.set(UP_TOKEN, 12.345678);
+    wallet.balances.set(DOWN_TOKEN, 7.5);
+    const position = openPosition(12.345678, 7.5);
+
+    const result = await createReconciler().reconcile(position);
+
+    assert.equal(result, position);
+    assert.equal(db.updates.length, 0);
+    assert.equal(db.discrepancies.length, 0);
+  });
+
+  it('corrects a mismatched balance to the exact wallet balance', async () => {
+    wallet.balances.set(UP_TOKEN, 10.25);
+    wallet.balances.set(DOWN_TOKEN, 7.5);
+
+    const result = await createReconciler().reconcile(openPosition(12, 7.5));
+
+    assert.equal(result.upBalance, 10.25);
+    assert.equal(result.downBalance, 7.5);
+    assert.deepEqual(db.updates, [{ id: 'BTC_test', updates: { upBalance: 10.25 } }]);
+    assert.equal(db.discrepancies.length, 1);
+    assert.equal(db.discrepancies[0].side, 'UP');
+    assert.equal(db.discrepancies[0].corrected, true);
+  });
+
+  it('only records the discrepancy when auto-correct is off', async () => {
+    options.autoCorrect = false;
+    wallet.balances.set(UP_TOKEN, 10.25);
+    wallet.balances.set(DOWN_TOKEN, 7.5);
+    wallet.openOrders.set(UP_TOKEN, [{ id: 'orphan', original_size: '5', size_matched: '1' }]);
+    const position = openPosition(12, 7.5);
+
+    const result = await createReconciler().reconcile(position);
+
+    assert.equal(result, position);
+    assert.equal(db.updates.length, 0);
+    assert.deepEqual(wallet.cancelled, []);
+    assert.equal(db.discrepancies[0].corrected, false);
+    assert.equal(db.discrepancies[0].openOrderShares, 4);
+  });
+
+  it('cancels open orders the bot does not track', async () => {
+    wallet.balances.set(UP_TOKEN, 5);
+    wallet.balances.set(DOWN_TOKEN, 5);
+    wallet.openOrders.set(DOWN_TOKEN, [
+      { id: 'orphan', original_size: '5', size_matched: '0' },
+      { id: 'ours', original_size: '5', size_matched: '0' },
+    ]);
+    tracked.add('ours');
+
+    await createReconciler().reconcile(openPosition(5, 5));
+
+    assert.deepEqual(wallet.cancelled, ['orphan']);
+    assert.equal(db.updates.length, 0);
+    assert.equal(db.discrepancies[0].orphanedOrders, 1);
+  });
+
+  it('skips a side whose wallet balance cannot be fetched', async () => {
+    wallet.balances.set(DOWN_TOKEN, 3);
+
+    const result = await createReconciler().reconcile(openPosition(5, 5));
+
+    assert.equal(result.upBalance, 5);
+    assert.equal(result.downBalance, 3);
+    assert.deepEqual(db.updates, [{ id: 'BTC_test', updates: { downBalance: 3 } }]);
+  });
+});
@@ -0,0 +1,111 @@
+// ============================================================================
+// FILL SIMULATOR TESTS (test/FillSimulator.test.ts)
+// ============================================================================
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { Fill, FillSimulator } from '../src/trading/FillSimulator';
+import { LocalOrderBook } from '../src/polymarket/types';
+import { VirtualClock } from '../src/utils/clock';
+
+const ASSET = '1234567890';
+
+function book(bids: [number, number][], asks: [number, number][], timestamp: number = 1): LocalOrderBook {
+  return {
+    assetId: ASSET,
+    market: '0xmarket',
+    bids: bids.map(([price, size]) => ({ price, size })),
+    asks: asks.map(([price, size]) => ({ price, size })),
+    hash: `hash_${timestamp}`,
+    timestamp,
+    receivedAt: timestamp,
+    deltasSinceSnapshot: 0,
+    inSync: true,
+  };
+}
+
+function totalShares(fills: Fill[]): number {
+  return fills.reduce((sum, f) => sum + f.shares, 0);
+}
+
+describe('FillSimulator', () => {
+  it('walks the ask ladder and fills fractional sizes', async () => {
+    const simulator = new FillSimulator({ latencyMs: 0, restingTimeoutMs: 0 });
+    simulator.onBook(book([[0.40, 50]], [[0.45, 2.5], [0.46, 10]]));
+
+    const result = await simulator.submit({ tokenId: ASSET, side: 'BUY', shares: 4, price: 0.46 });
+
+    assert.equal(result.success, true);
+    assert.equal(result.filledShares, 4);
+    assert.equal(result.avgPrice.toFixed(6), ((2.5 * 0.45 + 1.5 * 0.46) / 4).toFixed(6));
+  });
+
+  it('does not fill the same liquidity twice before the book changes', async () => {
+    const simulator = new FillSimulator({ latencyMs: 0, restingTimeoutMs: 0 });
+    simulator.onBook(book([], [[0.45, 3]]));
+
+    const first = await simulator.submit({ tokenId: ASSET, side: 'BUY', shares: 3, price: 0.45 });
+    simulator.onBook(book([], [[0.45, 3]], 2));
+    const second = await simulator.submit({ tokenId: ASSET, side: 'BUY', shares: 3, price: 0.45 });
+
+    assert.equal(first.filledShares, 3);
+    assert.equal(second.success, false);
+  });
+
+  it('fills a resting quote once across identical book updates', () => {
+    const simulator = new FillSimulator({ latencyMs: 0, restingTimeoutMs: 0 });
+    simulator.onBook(book([[0.40, 20]], [[0.50, 20]]));
+
+    const fills: Fill[] = [];
+    const id = simulator.postQuote({ tokenId: ASSET, side: 'BUY', shares: 10, price: 0.45 }, batch => fills.push(...batch));
+    assert.ok(id);
+
+    // The ask comes down through our bid, then the exchange repeats the same book
+    simulator.onBook(book([[0.40, 20]], [[0.44, 4]], 2));
+    simulator.onBook(book([[0.40, 20]], [[0.44, 4]], 3));
+    // An unrelated level changing does not free the liquidity we already took either
+    simulator.onBook(book([[0.41, 5], [0.40, 20]], [[0.44, 4]], 4));
+
+    assert.equal(fills.length, 1);
+    assert.equal(totalShares(fills), 4);
+    assert.equal(fills[0].price, 0.45);
+  });
+
+  it('treats a level as fresh once the exchange shows a new size there', () => {
+    const simulator = new FillSimulator({ latencyMs: 0, restingTimeoutMs: 0 });
+    simulator.onBook(book([[0.40, 20]], [[0.50, 20]]));
+
+    const fills: Fill[] = [];
+    simulator.postQuote({ tokenId: ASSET, side: 'BUY', shares: 10, price: 0.45 }, batch => fills.push(...batch));
+
+    simulator.onBook(book([[0.40, 20]], [[0.44, 4]], 2));
+    simulator.onBook(book([[0.40, 20]], [[0.44, 7]], 3));
+
+    assert.equal(fills.length, 2);
+    assert.equal(totalShares(fills), 10);
+  });
+
+  it('rejects a quote that would cross the book', () => {
+    const simulator = new FillSimulator({ latencyMs: 0, restingTimeoutMs: 0 });
+    simulator.onBook(book([[0.40, 20]], [[0.45, 20]]));
+
+    assert.equal(simulator.postQuote({ tokenId: ASSET, side: 'BUY', shares: 5, price: 0.45 }, () => {}), null);
+  });
+
+  it('fills a resting remainder from a later book, then stops at its size', async () => {
+    const clock = new VirtualClock(0);
+    const simulator = new FillSimulator({ latencyMs: 0, restingTimeoutMs: 1000 }, clock);
+    simulator.onBook(book([], [[0.45, 2]]));
+
+    const pending = simulator.submit({ tokenId: ASSET, side: 'BUY', shares: 5, price: 0.45 });
+    await new Promise(resolve => setImmediate(resolve));
+
+    simulator.onBook(book([], [[0.45, 2]], 2));
+    simulator.onBook(book([], [[0.44, 1], [0.45, 2]], 3));
+    await clock.advanceTo(1000);
+    const result = await pending;
+
+    assert.equal(result.filledShares, 3);
+    assert.equal(result.avgPrice.toFixed(6), ((2 * 0.45 + 0.44) / 3).toFixed(6));
+  });
+});
@@ -0,0 +1,136 @@
+// ============================================================================
+// ORDER MANAGER TESTS (test/OrderManager.test.ts)
+// ============================================================================
+
+import { beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { DatabaseClient } from '../src/database/client';
+import { PolymarketClient } from '../src/polymarket/PolymarketClient';
+import { OrderManager } from '../src/trading/OrderManager';
+import { TrackedOrder } from '../src/types';
+import { VirtualClock } from '../src/utils/clock';
+
+const POLL_MS = 1000;
+
+/**
+ * The CLOB calls OrderManager makes, with a switch for refusing cancels
+ */
+class FakeClob {
+  refuseCancels = false;
+  cancelAttempts = 0;
+  remote: Map<string, { status: string; size_matched: string; price: string }> = new Map();
+
+  async cancelOrder(orderId: string): Promise<boolean> {
+    this.cancelAttempts++;
+    if (this.refuseCancels) return false;
+
+    this.remote.get(orderId)!.status = 'CANCELED';
+    return true;
+  }
+
+  async getOrder(orderId: string) {
+    return this.remote.get(orderId) || null;
+  }
+}
+
+class InMemoryOrderStore {
+  orders: Map<string, any> = new Map();
+
+  async insertOrder(order: TrackedOrder): Promise<void> {
+    this.orders.set(order.id, { ...order });
+  }
+
+  async updateOrder(id: string, updates: Partial<TrackedOrder>): Promise<void> {
+    Object.assign(this.orders.get(id), Object.fromEntries(Object.entries(updates).filter(([, v]) => v !== undefined)));
+  }
+}
+
+function liveOrder(id: string, createdAt: number): TrackedOrder {
+  return {
+    id,
+    coin: 'BTC',
+    tokenId: '1234567890',
+    side: 'BUY',
+    price: 0.45,
+    size: 10,
+    filledSize: 0,
+    avgFillPrice: 0,
+    status: 'OPEN',
+    mode: 'live',
+    createdAt,
+    updatedAt: createdAt,
+    resting: true,
+  };
+}
+
+describe('OrderManager', () => {
+  let clob: FakeClob;
+  let db: InMemoryOrderStore;
+  let clock: VirtualClock;
+  let manager: OrderManager;
+
+  beforeEach(() => {
+    clob = new FakeClob();
+    db = new InMemoryOrderStore();
+    clock = new VirtualClock(0);
+    manager = new OrderManager(
+      clob as unknown as PolymarketClient,
+      db as unknown as DatabaseClient,
+      { ttlMs: 60000, pollIntervalMs: POLL_MS },
+      clock
+    );
+  });
+
+  it('marks an order CANCELLED once the CLOB confirms the cancel', async () => {
+    clob.remote.set('order_1', { status: 'LIVE', size_matched: '0', price: '0.45' });
+    await manager.track(liveOrder('order_1', 0));
+
+    await manager.cancel('order_1', 'Quote cancelled');
+
+    assert.equal(manager.getOrder('order_1')!.status, 'CANCELLED');
+    assert.equal(db.orders.get('order_1').status, 'CANCELLED');
+  });
+
+  it('keeps an order open when the cancel fails and still applies its fills', async () => {
+    clob.remote.set('order_1', { status: 'LIVE', size_matched: '0', price: '0.45' });
+    await manager.track(liveOrder('order_1', 0));
+    const fills: number[] = [];
+    manager.on('fill', ({ shares }) => fills.push(shares));
+
+    clob.refuseCancels = true;
+    await manager.cancel('order_1', 'Quote cancelled');
+
+    assert.equal(manager.getOrder('order_1')!.status, 'OPEN');
+    assert.deepEqual(manager.getOpenOrders().map(o => o.id), ['order_1']);
+
+    // It keeps trading on the CLOB, and the next poll retries the cancel
+    clob.remote.get('order_1')!.size_matched = '4';
+    clob.refuseCancels = false;
+    manager.start();
+    await clock.advanceTo(POLL_MS);
+    manager.stop();
+
+    const order = manager.getOrder('order_1')!;
+    assert.deepEqual(fills, [4]);
+    assert.equal(order.filledSize, 4);
+    assert.equal(order.status, 'CANCELLED');
+    assert.equal(order.error, 'Quote cancelled');
+    assert.equal(clob.cancelAttempts, 2);
+  });
+
+  it('stops retrying once the CLOB reports the order cancelled on its own', async () => {
+    clob.remote.set('order_1', { status: 'LIVE', size_matched: '0', price: '0.45' });
+    await manager.track(liveOrder('order_1', 0));
+
+    clob.refuseCancels = true;
+    await manager.cancel('order_1', 'Quote cancelled');
+    clob.remote.get('order_1')!.status = 'CANCELED';
+
+    manager.start();
+    await clock.advanceTo(POLL_MS * 3);
+    manager.stop();
+
+    assert.equal(manager.getOrder('order_1')!.status, 'CANCELLED');
+    assert.equal(clob.cancelAttempts, 2);
+  });
+});
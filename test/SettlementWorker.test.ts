@@ -0,0 +1,343 @@
+// ============================================================================
+// SETTLEMENT WORKER TESTS (test/SettlementWorker.test.ts)
+// ============================================================================
+//
+// Runs SettlementWorker against a local Ganache node with a mock
+// ConditionalTokens contract compiled from test/fixtures. The database is
+// an in-memory stand-in for the handful of redemption queries it makes.
+
+import { after, before, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import path from 'path';
+import ganache from 'ganache';
+import { Contract, ContractFactory, Signer, providers, utils } from 'ethers';
+import { BotConfig } from '../src/config';
+import { DatabaseClient } from '../src/database/client';
+import { SettlementWorker } from '../src/trading/SettlementWorker';
+import { Position } from '../src/types';
+import { VirtualClock } from '../src/utils/clock';
+
+const solc = require('solc');
+
+const PORT = 8555;
+const COLLATERAL = '0x2791Bca1f2de4661ED88A30C99A7a9449Aa84174';
+const SHARE = utils.parseUnits('1', 6);
+
+interface RedemptionRow {
+  id: number;
+  conditionId: string;
+  positionIds: string[];
+  txHash?: string;
+  amount?: number;
+  status: string;
+  error?: string;
+  updatedAt: number;
+}
+
+/**
+ * JSON-RPC provider whose eth_calls fail for chosen condition IDs
+ */
+class FlakyProvider extends providers.JsonRpcProvider {
+  failingConditions: Set<string> = new Set();
+
+  async send(method: string, params: any[]): Promise<any> {
+    if (method === 'eth_call') {
+      const data: string = (params[0]?.data || '').toLowerCase();
+      for (const conditionId of this.failingConditions) {
+        if (data.includes(conditionId.slice(2).toLowerCase())) {
+          throw new Error('RPC unavailable');
+        }
+      }
+    }
+    return super.send(method, params);
+  }
+}
+
+/**
+ * The redemption queries of DatabaseClient, kept in memory
+ */
+class InMemoryRedemptionStore {
+  positions: Position[] = [];
+  redemptions: RedemptionRow[] = [];
+
+  async getPositionsAwaitingRedemption(): Promise<Position[]> {
+    return this.positions.filter(p =>
+      p.status === 'CLOSED' &&
+      p.conditionId &&
+      !this.redemptions.some(r => r.conditionId === p.conditionId && ['PENDING', 'CONFIRMED', 'SKIPPED'].includes(r.status))
+    );
+  }
+
+  async getRedemptionFailures() {
+    const failures = new Map<string, { conditionId: string; failures: number; msSinceLastFailure: number }>();
+    for (const row of this.redemptions.filter(r => r.status === 'FAILED')) {
+      const current = failures.get(row.conditionId) || { conditionId: row.conditionId, failures: 0, msSinceLastFailure: Infinity };
+      current.failures++;
+      current.msSinceLastFailure = Math.min(current.msSinceLastFailure, Date.now() - row.updatedAt);
+      failures.set(row.conditionId, current);
+    }
+    return Array.from(failures.values());
+  }
+
+  async insertRedemption(redemption: Omit<RedemptionRow, 'id' | 'updatedAt'>): Promise<number> {
+    const id = this.redemptions.length + 1;
+    this.redemptions.push({ ...redemption, id, updatedAt: Date.now() });
+    return id;
+  }
+
+  async updateRedemption(id: number, updates: { amount?: number; status?: string; error?: string }): Promise<void> {
+    const row = this.redemptions.find(r => r.id === id)!;
+    Object.assign(row, updates, { updatedAt: Date.now() });
+  }
+
+  async getPendingRedemptions(): Promise<any[]> {
+    return this.redemptions
+      .filter(r => r.status === 'PENDING')
+      .map(r => ({ id: r.id, tx_hash: r.txHash }));
+  }
+}
+
+function compileMockConditionalTokens(): { abi: any[]; bytecode: string } {
+  const source = fs.readFileSync(path.join(__dirname, 'fixtures', 'MockConditionalTokens.sol'), 'utf8');
+  const input = {
+    language: 'Solidity',
+    sources: { 'MockConditionalTokens.sol': { content: source } },
+    settings: {
+      evmVersion: 'paris',
+      outputSelection: { '*': { '*': ['abi', 'evm.bytecode.object'] } },
+    },
+  };
+
+  const output = JSON.parse(solc.compile(JSON.stringify(input)));
+  const errors = (output.errors || []).filter((e: any) => e.severity === 'error');
+  if (errors.length > 0) {
+    throw new Error(errors.map((e: any) => e.formattedMessage).join('\n'));
+  }
+
+  const contract = output.contracts['MockConditionalTokens.sol'].MockConditionalTokens;
+  return { abi: contract.abi, bytecode: contract.evm.bytecode.object };
+}
+
+function closedPosition(coin: string, conditionId: string, upTokenId: string, downTokenId: string): Position {
+  return {
+    id: `${coin}_${conditionId.slice(2, 10)}`,
+    coin,
+    marketId: conditionId,
+    marketSlug: `${coin.toLowerCase()}-up-or-down`,
+    side: 'UP',
+    entryPrice: 0.5,
+    shares: 100,
+    costBasis: 50,
+    entryTime: Date.now() - 3600000,
+    hourOpenPrice: 100000,
+    marketEndTime: Date.now(),
+    status: 'CLOSED',
+    assetIds: { up: upTokenId, down: downTokenId },
+    confidence: 60,
+    conditionId,
+  };
+}
+
+describe('SettlementWorker', () => {
+  const server = ganache.server({
+    logging: { quiet: true },
+    wallet: { deterministic: true },
+    chain: { chainId: 1337 },
+  });
+
+  let provider: FlakyProvider;
+  let signer: Signer;
+  let owner: string;
+  let ctf: Contract;
+  let db: InMemoryRedemptionStore;
+  let options: BotConfig['settlement'];
+  let nextToken = 1;
+
+  /**
+   * Register a binary condition, mint our holdings and optionally report its payouts
+   */
+  async function market(coin: string, held: { up: number; down: number }, payouts?: [number, number]): Promise<Position> {
+    const conditionId = utils.id(`${coin}-${nextToken}`);
+    const upTokenId = String(nextToken++);
+    const downTokenId = String(nextToken++);
+
+    await (await ctf.registerCondition(conditionId, [upTokenId, downTokenId])).wait();
+    if (held.up > 0) await (await ctf.mint(owner, upTokenId, SHARE.mul(held.up))).wait();
+    if (held.down > 0) await (await ctf.mint(owner, downTokenId, SHARE.mul(held.down))).wait();
+    if (payouts) await (await ctf.reportPayouts(conditionId, payouts)).wait();
+
+    const position = closedPosition(coin, conditionId, upTokenId, downTokenId);
+    db.positions.push(position);
+    return position;
+  }
+
+  function createWorker(clock?: VirtualClock): SettlementWorker {
+    return new SettlementWorker(db as unknown as DatabaseClient, signer, options, clock);
+  }
+
+  before(async () => {
+    await server.listen(PORT, '127.0.0.1');
+    provider = new FlakyProvider(`http://127.0.0.1:${PORT}`);
+    provider.pollingInterval = 50;
+    signer = provider.getSigner(0);
+    owner = await signer.getAddress();
+
+    const { abi, bytecode } = compileMockConditionalTokens();
+    ctf = await new ContractFactory(abi, bytecode, signer).deploy();
+    await ctf.deployed();
+  });
+
+  after(async () => {
+    await server.close();
+  });
+
+  beforeEach(async () => {
+    db = new InMemoryRedemptionStore();
+    options = {
+      rpcUrl: `http://127.0.0.1:${PORT}`,
+      conditionalTokensAddress: ctf.address,
+      collateralAddress: COLLATERAL,
+      intervalMs: 60000,
+      maxAttempts: 3,
+      retryBaseMs: 0,
+      retryMaxMs: 0,
+    };
+    provider.failingConditions.clear();
+    await (await ctf.setRedemptionsPaused(false)).wait();
+  });
+
+  it('redeems the winning side and records the USDC paid out', async () => {
+    const position = await market('BTC', { up: 100, down: 40 }, [1, 0]);
+
+    await createWorker().run();
+
+    assert.equal(db.redemptions.length, 1);
+    const [redemption] = db.redemptions;
+    assert.equal(redemption.status, 'CONFIRMED');
+    assert.equal(redemption.conditionId, position.conditionId);
+    assert.deepEqual(redemption.positionIds, [position.id]);
+    assert.equal(redemption.amount, 100);
+    assert.match(redemption.txHash!, /^0x[0-9a-f]{64}$/);
+
+    const receipt = await provider.getTransactionReceipt(redemption.txHash!);
+    assert.equal(receipt.status, 1);
+    assert.equal((await ctf.balanceOf(owner, position.assetIds.up)).toString(), '0');
+    assert.equal((await ctf.balanceOf(owner, position.assetIds.down)).toString(), '0');
+  });
+
+  it('does not redeem the same market twice', async () => {
+    await market('ETH', { up: 0, down: 25 }, [0, 1]);
+    const worker = createWorker();
+
+    await worker.run();
+    await worker.run();
+
+    assert.equal(db.redemptions.length, 1);
+    assert.equal(db.redemptions[0].status, 'CONFIRMED');
+    assert.equal(db.redemptions[0].amount, 25);
+  });
+
+  it('waits until the payout is reported', async () => {
+    await market('SOL', { up: 10, down: 10 });
+
+    await createWorker().run();
+
+    assert.equal(db.redemptions.length, 0);
+  });
+
+  it('skips markets with no tokens left to redeem', async () => {
+    await market('XRP', { up: 0, down: 0 }, [1, 0]);
+
+    await createWorker().run();
+
+    assert.equal(db.redemptions.length, 1);
+    assert.equal(db.redemptions[0].status, 'SKIPPED');
+    assert.equal(db.redemptions[0].amount, 0);
+  });
+
+  it('records a FAILED redemption when the transaction reverts', async () => {
+    const position = await market('BTC', { up: 5, down: 0 }, [1, 0]);
+    await (await ctf.setRedemptionsPaused(true)).wait();
+
+    await createWorker().run();
+
+    assert.equal(db.redemptions.length, 1);
+    const [redemption] = db.redemptions;
+    assert.equal(redemption.status, 'FAILED');
+    assert.equal(redemption.conditionId, position.conditionId);
+    assert.match(redemption.error!, /redemptions paused/);
+    assert.equal((await ctf.balanceOf(owner, position.assetIds.up)).toString(), SHARE.mul(5).toString());
+  });
+
+  it('stops retrying a failing market after maxAttempts', async () => {
+    await market('ETH', { up: 5, down: 0 }, [1, 0]);
+    await (await ctf.setRedemptionsPaused(true)).wait();
+    const worker = createWorker();
+
+    for (let i = 0; i < options.maxAttempts + 2; i++) {
+      await worker.run();
+    }
+
+    assert.equal(db.redemptions.length, options.maxAttempts);
+    assert.ok(db.redemptions.every(r => r.status === 'FAILED'));
+  });
+
+  it('backs off before retrying a failed redemption', async () => {
+    await market('SOL', { up: 5, down: 0 }, [1, 0]);
+    await (await ctf.setRedemptionsPaused(true)).wait();
+    options.retryBaseMs = 60000;
+    options.retryMaxMs = 60000;
+    const worker = createWorker();
+
+    await worker.run();
+    await (await ctf.setRedemptionsPaused(false)).wait();
+    await worker.run();
+
+    assert.equal(db.redemptions.length, 1);
+    assert.equal(db.redemptions[0].status, 'FAILED');
+
+    // Once the backoff has passed the retry goes through
+    db.redemptions[0].updatedAt -= 60000;
+    await worker.run();
+
+    assert.equal(db.redemptions.length, 2);
+    assert.equal(db.redemptions[1].status, 'CONFIRMED');
+    assert.equal(db.redemptions[1].amount, 5);
+  });
+
+  it('records an RPC failure and still redeems the other markets', async () => {
+    const broken = await market('BTC', { up: 5, down: 0 }, [1, 0]);
+    const healthy = await market('ETH', { up: 0, down: 8 }, [0, 1]);
+    provider.failingConditions.add(broken.conditionId!);
+
+    await createWorker().run();
+
+    const byCondition = new Map(db.redemptions.map(r => [r.conditionId, r]));
+    assert.equal(db.redemptions.length, 2);
+    assert.equal(byCondition.get(broken.conditionId!)!.status, 'FAILED');
+    assert.ok(byCondition.get(broken.conditionId!)!.error);
+    assert.equal(byCondition.get(healthy.conditionId!)!.status, 'CONFIRMED');
+    assert.equal(byCondition.get(healthy.conditionId!)!.amount, 8);
+  });
+
+  it('runs on the injected clock', async () => {
+    await market('XRP', { up: 3, down: 0 }, [1, 0]);
+    const clock = new VirtualClock(0);
+    const worker = createWorker(clock);
+
+    worker.start();
+    await clock.advanceTo(options.intervalMs - 1);
+    assert.equal(db.redemptions.length, 0);
+
+    await clock.advanceTo(options.intervalMs);
+    for (let i = 0; i < 100 && db.redemptions[0]?.status !== 'CONFIRMED'; i++) {
+      await new Promise(resolve => setTimeout(resolve, 50));
+    }
+    worker.stop();
+
+    assert.equal(db.redemptions.length, 1);
+    assert.equal(db.redemptions[0].status, 'CONFIRMED');
+    assert.equal(db.redemptions[0].amount, 3);
+  });
+});
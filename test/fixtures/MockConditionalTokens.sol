@@ -0,0 +1,68 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+/**
+ * Stand-in for Gnosis ConditionalTokens with just what SettlementWorker calls.
+ * Outcome token IDs are registered per condition instead of derived from the
+ * collateral and collection, and redemptions pay out by emitting the event.
+ */
+contract MockConditionalTokens {
+    mapping(bytes32 => uint256) public payoutDenominator;
+    mapping(bytes32 => uint256[]) private payoutNumerators;
+    mapping(bytes32 => uint256[]) private outcomeTokens;
+    mapping(address => mapping(uint256 => uint256)) public balanceOf;
+    bool public redemptionsPaused;
+
+    event PayoutRedemption(
+        address indexed redeemer,
+        address indexed collateralToken,
+        bytes32 indexed parentCollectionId,
+        bytes32 conditionId,
+        uint256[] indexSets,
+        uint256 payout
+    );
+
+    function registerCondition(bytes32 conditionId, uint256[] calldata tokenIds) external {
+        outcomeTokens[conditionId] = tokenIds;
+    }
+
+    function mint(address owner, uint256 tokenId, uint256 amount) external {
+        balanceOf[owner][tokenId] += amount;
+    }
+
+    function reportPayouts(bytes32 conditionId, uint256[] calldata payouts) external {
+        uint256 denominator = 0;
+        for (uint256 i = 0; i < payouts.length; i++) {
+            denominator += payouts[i];
+        }
+        payoutNumerators[conditionId] = payouts;
+        payoutDenominator[conditionId] = denominator;
+    }
+
+    function setRedemptionsPaused(bool paused) external {
+        redemptionsPaused = paused;
+    }
+
+    function redeemPositions(
+        address collateralToken,
+        bytes32 parentCollectionId,
+        bytes32 conditionId,
+        uint256[] calldata indexSets
+    ) external {
+        require(!redemptionsPaused, "redemptions paused");
+        uint256 denominator = payoutDenominator[conditionId];
+        require(denominator > 0, "result for condition not received yet");
+
+        uint256 payout = 0;
+        for (uint256 i = 0; i < indexSets.length; i++) {
+            // Binary markets only: index set 1 << n is outcome n
+            uint256 outcome = indexSets[i] == 1 ? 0 : 1;
+            uint256 tokenId = outcomeTokens[conditionId][outcome];
+            uint256 amount = balanceOf[msg.sender][tokenId];
+            payout += (amount * payoutNumerators[conditionId][outcome]) / denominator;
+            balanceOf[msg.sender][tokenId] = 0;
+        }
+
+        emit PayoutRedemption(msg.sender, collateralToken, parentCollectionId, conditionId, indexSets, payout);
+    }
+}